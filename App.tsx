@@ -1,28 +1,148 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GameState, PlayerColor, Point, NetworkMessage, ChatMessage, HistoryEntry } from './types.ts';
-import { GoRules, BOARD_SIZE } from './logic/GoRules.ts';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GameState, PlayerColor, Point, NetworkMessage, MessageType, MessagePayloads, ChatMessage, SideScore, GameSettings, MoveStamp, SyncPayload, PlayerProfile } from './types.ts';
+import { GoRules, DEFAULT_BOARD_SIZE } from './logic/GoRules.ts';
+import { Scoring } from './logic/Scoring.ts';
+import { Influence } from './logic/Influence.ts';
+import { Analysis, PositionEval } from './logic/Analysis.ts';
+import { Notation } from './logic/Notation.ts';
+import { Narrator } from './logic/Narrator.ts';
+import { Editor, EditorState, EditorTool } from './logic/Editor.ts';
+import { GameFlow } from './logic/GameFlow.ts';
+import { Clock, NO_TIME_CONTROL } from './logic/Clock.ts';
+import { Result } from './logic/Result.ts';
+import { Sgf, SgfGame } from './logic/Sgf.ts';
+import { Protocol } from './logic/Protocol.ts';
+import { GameStore, SavedGame } from './logic/GameStore.ts';
+import { Invite, InviteLink } from './logic/Invite.ts';
+import { Review, ReviewTree } from './logic/Review.ts';
+import { Ai, AiAction, AiLevel, AI_LEVELS } from './logic/Ai.ts';
+import { GtpClient } from './logic/GtpClient.ts';
+import { PlayerRecord, Profile } from './logic/Profile.ts';
 import GoBoard from './components/GoBoard.tsx';
+import SetupDialog, { describeSettings } from './components/SetupDialog.tsx';
+import ReviewPanel from './components/ReviewPanel.tsx';
+import GameLibrary from './components/GameLibrary.tsx';
+import TsumegoView from './components/TsumegoView.tsx';
+import MoveList from './components/MoveList.tsx';
+import AnalysisGraph from './components/AnalysisGraph.tsx';
+import EditorPanel from './components/EditorPanel.tsx';
+import ProfileView from './components/ProfileView.tsx';
+import { Connection, Transport, TransportKind } from './net/Transport.ts';
+import { PeerTransport } from './net/PeerTransport.ts';
+import { DEFAULT_RELAY_URL, RelayTransport } from './net/RelayTransport.ts';
+import { DEFAULT_GTP_URL, GtpSocket } from './net/GtpSocket.ts';
 
-declare global {
-  interface Window {
-    Peer: any;
-  }
+const EMOJIS = ['😄', '😭', '😠', '😮', '💡', '⚡', '🔥', '👑', '🥳', '🤔', '🤡', '🚀', '💎', '🧊'];
+
+const DEFAULT_SETTINGS: GameSettings = {
+  boardSize: DEFAULT_BOARD_SIZE,
+  komi: 7.5,
+  ruleSet: 'chinese',
+  scoringMethod: 'area',
+  handicap: 0,
+  handicapMode: 'fixed',
+  timeControl: NO_TIME_CONTROL,
+  hostColor: 'black',
+};
+
+// 观众需要收到的消息：改变局面的操作与聊天
+const SPECTATOR_MESSAGES: MessageType[] = [
+  'MOVE', 'PASS', 'CHAT', 'SYNC', 'UNDO_ACCEPT', 'RESTART', 'RESTART_ACCEPT', 'LOAD_ACCEPT', 'MARK_DEAD', 'ACCEPT_SCORE', 'RESUME',
+  'TIMEOUT', 'RESIGN', 'DRAW_ACCEPT', 'VIEWERS',
+];
+
+// 会话内编号留底的消息：断线期间发不出去或对方没收到的，重连后按序补发
+const SEQUENCED_MESSAGES: MessageType[] = [
+  'MOVE', 'PASS', 'CHAT', 'SYNC', 'UNDO_REQ', 'UNDO_ACCEPT', 'UNDO_DECLINE', 'RESTART', 'MARK_DEAD', 'ACCEPT_SCORE', 'RESUME',
+  'TIMEOUT', 'RESIGN', 'DRAW_OFFER', 'DRAW_ACCEPT', 'DRAW_DECLINE', 'RESTART_REQ', 'RESTART_ACCEPT', 'RESTART_DECLINE',
+  'LOAD_REQ', 'LOAD_ACCEPT', 'LOAD_DECLINE',
+];
+
+// 客人断线后自动重连的间隔与次数
+const RECONNECT_DELAY = 3000;
+const RECONNECT_ATTEMPTS = 10;
+
+// 客人记下所在会话，刷新页面后仍能回到原对局
+const SESSION_KEY = 'weiqi-session';
+
+interface SavedSession {
+  sessionId: string;
+  hostId: string;
 }
 
-const EMOJIS = ['😄', '😭', '😠', '😮', '💡', '⚡', '🔥', '👑', '🥳', '🤔', '🤡', '🚀', '💎', '🧊'];
+// 连接方式：默认 PeerJS 点对点，屏蔽 WebRTC 的网络可改走自建中继
+const TRANSPORT_KEY = 'weiqi-transport';
+
+interface TransportSettings {
+  kind: TransportKind;
+  relayUrl: string;
+}
+
+const loadTransportSettings = (): TransportSettings => {
+  try {
+    return { kind: 'peer', relayUrl: DEFAULT_RELAY_URL, ...JSON.parse(localStorage.getItem(TRANSPORT_KEY) ?? '{}') };
+  } catch {
+    return { kind: 'peer', relayUrl: DEFAULT_RELAY_URL };
+  }
+};
+
+// 记下各连接方式上次分配到的 ID，刷新后沿用，对手仍能连回来
+const peerIdKey = (kind: TransportKind) => `weiqi-peer-id:${kind}`;
+
+// 上次连接的 GTP 桥地址
+const GTP_URL_KEY = 'weiqi-gtp-url';
+
+const createTransport = ({ kind, relayUrl }: TransportSettings, id?: string): Transport =>
+  kind === 'relay' ? new RelayTransport(relayUrl, id) : new PeerTransport(id);
+
+const newGameId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const loadSavedSession = (): SavedSession | null => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+// 对手的钟走完后多等几秒再判超时，给在途的落子消息留出余地
+const TIMEOUT_GRACE = 3000;
+
+// 对方自报用时与本方量得的用时之间，最多容许这么多的网络延迟
+const LATENCY_ALLOWANCE = 1000;
 
 const App: React.FC = () => {
-  const [view, setView] = useState<'lobby' | 'game'>('lobby');
-  const [gameState, setGameState] = useState<GameState>({
-    board: Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null)),
-    currentPlayer: 'black',
-    captured: { black: 0, white: 0 },
-    history: [],
-    passCount: 0,
-    gameOver: false,
-    winner: null,
-    lastMove: null,
-  });
+  const [view, setView] = useState<'lobby' | 'game' | 'library' | 'tsumego' | 'profile'>('lobby');
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
+  const [gameState, setGameState] = useState<GameState>(() => GameFlow.create(DEFAULT_SETTINGS));
+  const [showSetup, setShowSetup] = useState(false);
+  const [setupProposal, setSetupProposal] = useState<GameSettings | null>(null);
+  const [isAwaitingSetup, setIsAwaitingSetup] = useState(false);
+  const [reviewTree, setReviewTree] = useState<ReviewTree | null>(null);
+  // 终局分析：下标为手数，未算出的为 null
+  const [analysis, setAnalysis] = useState<(PositionEval | null)[] | null>(null);
+  const [showMoveNumbers, setShowMoveNumbers] = useState(false);
+  const [overlays, setOverlays] = useState({ territory: false, atari: false, liberties: false });
+  const [showCoordinates, setShowCoordinates] = useState(false);
+  // 聊天里的坐标或棋谱列表中悬停的一手，在棋盘上标出
+  const [highlight, setHighlight] = useState<Point | null>(null);
+  const [sidePanel, setSidePanel] = useState<'chat' | 'moves'>('chat');
+  // 摆棋模式下的局面与当前工具
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [editorTool, setEditorTool] = useState<EditorTool>('black');
+  // 读屏播报的内容
+  const [announcement, setAnnouncement] = useState('');
+  const [importedSgf, setImportedSgf] = useState<SgfGame | null>(null);
+  const [aiColor, setAiColor] = useState<PlayerColor | null>(null);
+  const [aiLevel, setAiLevel] = useState<AiLevel>('medium');
+  const [isAiThinking, setIsAiThinking] = useState(false);
+  // 由 GTP 引擎代替内置电脑执子时的引擎名
+  const [engineName, setEngineName] = useState<string | null>(null);
+  const [engineUrl, setEngineUrl] = useState(() => localStorage.getItem(GTP_URL_KEY) ?? DEFAULT_GTP_URL);
+  const [isEngineConnecting, setIsEngineConnecting] = useState(false);
+  // 本方资料与对局记录；联机对手的资料随握手发来
+  const [playerRecord, setPlayerRecord] = useState<PlayerRecord>(() => Profile.load());
+  const [opponentProfile, setOpponentProfile] = useState<PlayerProfile | null>(null);
 
   const [peerId, setPeerId] = useState<string>('');
   const [remotePeerId, setRemotePeerId] = useState<string>('');
@@ -35,14 +155,84 @@ const App: React.FC = () => {
   const [myEmojiCount, setMyEmojiCount] = useState(0);
   const [isWaitingUndoResponse, setIsWaitingUndoResponse] = useState(false);
   const [showUndoRequestModal, setShowUndoRequestModal] = useState(false);
+  const [showResignConfirm, setShowResignConfirm] = useState(false);
+  const [isWaitingDrawResponse, setIsWaitingDrawResponse] = useState(false);
+  const [showDrawOfferModal, setShowDrawOfferModal] = useState(false);
+  const [isWaitingRestartResponse, setIsWaitingRestartResponse] = useState(false);
+  const [showRestartRequestModal, setShowRestartRequestModal] = useState(false);
+  const [loadProposal, setLoadProposal] = useState<SyncPayload | null>(null);
+  const [opponentLeft, setOpponentLeft] = useState(false);
+  const [viewers, setViewers] = useState<string[]>([]);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  // 通过邀请链接打开时，连上后自动加入；主机走中继则跟着改用同一中继
+  const [invite, setInvite] = useState<InviteLink | null>(() => Invite.parse(location.hash));
+  const [inviteProposal, setInviteProposal] = useState<GameSettings | null>(null);
+  const [transportSettings, setTransportSettings] = useState<TransportSettings>(() =>
+    invite?.relayUrl ? { kind: 'relay', relayUrl: invite.relayUrl } : loadTransportSettings());
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(loadSavedSession);
 
   const [chatLog, setChatLog] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [floatingEmoji, setFloatingEmoji] = useState<{emoji: string, id: number} | null>(null);
+  const [now, setNow] = useState(Date.now());
 
-  const peerRef = useRef<any>(null);
-  const connRef = useRef<any>(null);
+  const transportRef = useRef<Transport | null>(null);
+  const connRef = useRef<Connection | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const sgfInputRef = useRef<HTMLInputElement>(null);
+  const announcedStateRef = useRef<GameState>(gameState);
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  const spectatorsRef = useRef<Connection[]>([]);
+  const roleRef = useRef<'host' | 'guest' | null>(null);
+  // 联机会话：会话号、双方各自的消息序号，以及本方已发消息的留底（重连后补发）
+  const sessionRef = useRef<string | null>(null);
+  const outSeqRef = useRef(0);
+  const inSeqRef = useRef(0);
+  const outboxRef = useRef<NetworkMessage[]>([]);
+  const hostIdRef = useRef<string | null>(null);
+  const opponentIdRef = useRef<string | null>(null);
+  // 当前对局在本地存储中的编号；为 null 时不自动保存（如观战或从棋谱库打开复盘）
+  const gameIdRef = useRef<string | null>(null);
+  const reconnectTimerRef = useRef<number | undefined>(undefined);
+  const workerRef = useRef<Worker | null>(null);
+  const aiRequestRef = useRef(0);
+  const gtpRef = useRef<GtpClient | null>(null);
+  const analysisWorkerRef = useRef<Worker | null>(null);
+  // 连接回调在挂载时注册，需通过 ref 读取最新状态
+  const gameStateRef = useRef<GameState>(gameState);
+  const chatLogRef = useRef<ChatMessage[]>(chatLog);
+  const settingsRef = useRef<GameSettings>(settings);
+  const proposedSettingsRef = useRef<GameSettings | null>(null);
+  // 客人随 HELLO 提给主机的设置（来自邀请链接）
+  const helloProposalRef = useRef<GameSettings | null>(null);
+  const myColorRef = useRef(myColor);
+  const isConnectedRef = useRef(isConnected);
+  const aiColorRef = useRef(aiColor);
+  const opponentLeftRef = useRef(opponentLeft);
+  const profileRef = useRef(playerRecord.profile);
+  // 本方发出、尚待对方答复的请求；对方的“同意”只在有请求时才生效
+  const awaitingRef = useRef({ undo: false, draw: false, restart: false });
+  // 联机时本方导入、等待对方同意载入的棋谱；摆出的局面没有棋谱，game 为 null
+  const pendingLoadRef = useRef<{ game: SgfGame | null; state: GameState; log: ChatMessage[] } | null>(null);
+  gameStateRef.current = gameState;
+  myColorRef.current = myColor;
+  isConnectedRef.current = isConnected;
+  aiColorRef.current = aiColor;
+  opponentLeftRef.current = opponentLeft;
+  profileRef.current = playerRecord.profile;
+  awaitingRef.current = { undo: isWaitingUndoResponse, draw: isWaitingDrawResponse, restart: isWaitingRestartResponse };
+  chatLogRef.current = chatLog;
+  settingsRef.current = settings;
+
+  const boardSize = gameState.board.length;
+
+  // 局面的唯一写入口：ref 同步更新，同一轮里连续处理的几条消息都读到最新局面；
+  // 新局面算好后再写入，发消息、记日志放在写入之后，免得更新函数被 React 重复调用时重复发送
+  const updateGame = (next: GameState) => {
+    gameStateRef.current = next;
+    setGameState(next);
+  };
 
   useEffect(() => {
     setMyEmojiCount(0);
@@ -58,20 +248,62 @@ const App: React.FC = () => {
       const statusH = isDesktop ? 0 : 48;
       const controlH = isDesktop ? 0 : 54;
       const chatH = isDesktop ? 0 : 130;
+      const overlayH = 30 + (analysis ? 100 : 0);
       
       const padH = isDesktop ? 500 : 24;
-      const padV = isDesktop ? 140 : (headerH + statusH + controlH + chatH + 40);
+      const padV = (isDesktop ? 140 : (headerH + statusH + controlH + chatH + 40)) + overlayH;
 
       const availW = w - padH;
       const availH = h - padV;
       const min = Math.min(availW, availH);
-      const ideal = Math.floor(min / (BOARD_SIZE + 0.5));
+      const ideal = Math.floor(min / (boardSize + (showCoordinates ? 1.6 : 0.5)));
       
-      setCellSize(Math.max(isDesktop ? 22 : 12, Math.min(ideal, 32)));
+      setCellSize(Math.max(isDesktop ? 22 : 12, Math.min(ideal, boardSize < 19 ? 48 : 32)));
     };
     handleResize();
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
+  }, [boardSize, showCoordinates, !!analysis]);
+
+  useEffect(() => {
+    if (!reviewTree) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      const step: Record<string, (t: ReviewTree) => ReviewTree> = {
+        ArrowLeft: t => Review.prev(t),
+        ArrowRight: t => Review.next(t),
+        ArrowUp: t => Review.sibling(t, -1),
+        ArrowDown: t => Review.sibling(t, 1),
+        Home: t => Review.first(t),
+        End: t => Review.last(t),
+      };
+      if (!step[e.key]) return;
+      e.preventDefault();
+      setReviewTree(t => t && step[e.key](t));
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [!!reviewTree]);
+
+  useEffect(() => {
+    const text = Narrator.announce(announcedStateRef.current, gameState);
+    announcedStateRef.current = gameState;
+    if (text) setAnnouncement(text);
+  }, [gameState]);
+
+  useEffect(() => {
+    if (message) setAnnouncement(message);
+  }, [message]);
+
+  useEffect(() => {
+    if (pendingMove) setAnnouncement(`${Notation.point(pendingMove, boardSize)}，再按一次确认落子`);
+  }, [pendingMove]);
+
+  // 快捷键：P 跳过、U 悔棋、R 认输、D 朗读局面；输入框内不响应
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
   }, []);
 
   useEffect(() => {
@@ -80,61 +312,420 @@ const App: React.FC = () => {
     }
   }, [chatLog]);
 
+  // 切换连接方式时重建底层连接，本方 ID 随之更换
   useEffect(() => {
-    const initPeer = () => {
-      if (!window.Peer) {
-        setTimeout(initPeer, 500);
+    localStorage.setItem(TRANSPORT_KEY, JSON.stringify(transportSettings));
+    // 初次使用时以随机房间号作为 ID，之后沿用
+    const transport = createTransport(transportSettings, localStorage.getItem(peerIdKey(transportSettings.kind)) ?? Invite.roomPeerId(Invite.newRoomCode()));
+    transportRef.current = transport;
+    setPeerId('');
+    transport.onReady(id => {
+      setPeerId(id);
+      localStorage.setItem(peerIdKey(transportSettings.kind), id);
+    });
+    transport.onConnection(conn => {
+      // 已作为客人加入别人的对局时不再接受连接
+      if (roleRef.current === 'guest') {
+        conn.onOpen(() => conn.close());
         return;
       }
-      try {
-        const peer = new window.Peer();
-        peerRef.current = peer;
-        peer.on('open', (id: string) => setPeerId(id));
-        peer.on('connection', (conn: any) => {
-          connRef.current = conn;
-          setIsConnected(true);
-          setMyColor('black');
-          setView('game');
-          setupConnection(conn);
-          conn.on('open', () => {
-            conn.send({ type: 'SYNC', payload: { gameState, chatLog } });
-          });
-        });
-      } catch (e) { console.error(e); }
+      // 等对方报上会话号，再决定是回到座位、观战还是开新局；版本不符或不打招呼的直接断开
+      const off = conn.onMessage(data => {
+        off();
+        const { message, error } = Protocol.parse(data);
+        if (message?.type !== 'HELLO') {
+          console.warn('Rejected peer:', error ?? `unexpected ${message?.type}`);
+          conn.close();
+          return;
+        }
+        admitPeer(conn, message.payload);
+      });
+    });
+    return () => {
+      transportRef.current = null;
+      transport.destroy();
+    };
+  }, [transportSettings.kind, transportSettings.relayUrl]);
+
+  useEffect(() => {
+    if (!invite || !peerId) return;
+    setInvite(null);
+    history.replaceState(null, '', location.pathname + location.search);
+    if (invite.peerId !== peerId) connectToPeer(invite.peerId, null, invite.settings);
+  }, [invite, peerId]);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    analysisWorkerRef.current?.terminate();
+    gtpRef.current?.close();
+  }, []);
+
+  // 电脑走子与联机对手走同一入口，结果按远端消息处理
+  useEffect(() => {
+    const requestId = ++aiRequestRef.current;
+    setIsAiThinking(false);
+    if (!aiColor || view !== 'game' || reviewTree) return;
+    if (gameState.gameOver || gameState.isScoring || gameState.currentPlayer !== aiColor) return;
+
+    if (gameState.handicapToPlace > 0) {
+      const points = GoRules.getHandicapPoints(boardSize, gameState.handicap);
+      handleNetworkMessage({ type: 'MOVE', payload: { point: points[gameState.handicap - gameState.handicapToPlace] } });
+      return;
+    }
+
+    const engine = gtpRef.current;
+    if (engine) {
+      setIsAiThinking(true);
+      engine.genmove(gameState, aiColor).then(action => {
+        if (requestId !== aiRequestRef.current) return;
+        setIsAiThinking(false);
+        playAiAction(action, aiColor);
+      }).catch(err => {
+        if (requestId !== aiRequestRef.current) return;
+        setIsAiThinking(false);
+        addSystemMessage(`引擎出错：${(err as Error).message}`);
+      });
+      return;
+    }
+
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('./logic/AiWorker.ts', import.meta.url), { type: 'module' });
+    }
+    workerRef.current.onmessage = (e: MessageEvent<{ id: number; action: AiAction }>) => {
+      if (e.data.id !== aiRequestRef.current) return;
+      setIsAiThinking(false);
+      playAiAction(e.data.action, aiColor);
     };
-    initPeer();
-    return () => peerRef.current?.destroy();
+    setIsAiThinking(true);
+    workerRef.current.postMessage({ id: requestId, state: gameState, level: aiLevel });
+  }, [gameState, aiColor, view, reviewTree]);
+
+  // 电脑或引擎的着手按远端消息处理；不合规的改为跳过，免得对局卡在电脑这一手
+  const playAiAction = (action: AiAction, color: PlayerColor) => {
+    const state = gameStateRef.current;
+    if (action.type === 'move' && !GameFlow.playMove(state, action.point).valid) {
+      addSystemMessage(`${engineName ? '引擎' : '电脑'}的着手 ${Notation.point(action.point, state.board.length)} 不合规，改为跳过。`);
+      action = { type: 'pass' };
+    }
+    if (action.type === 'move') handleNetworkMessage({ type: 'MOVE', payload: { point: action.point } });
+    else if (action.type === 'pass') handleNetworkMessage({ type: 'PASS', payload: {} });
+    else resign(color, false);
+  };
+
+  // 双方跳过后附上引擎自己的判断，死子仍由玩家标记
+  useEffect(() => {
+    const engine = gtpRef.current;
+    if (!engine || !aiColor || !gameState.isScoring) return;
+    engine.finalScore(gameState)
+      .then(score => addSystemMessage(`引擎判定：${score}`))
+      .catch(err => console.warn('Engine final_score failed:', err));
+  }, [gameState.isScoring]);
+
+  const isClockRunning = view === 'game' && !reviewTree && gameState.timeControl.type !== 'none' && gameState.turnStartedAt !== null
+    && !gameState.gameOver && !gameState.isScoring && gameState.handicapToPlace === 0;
+
+  useEffect(() => {
+    if (!isClockRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(timer);
+  }, [isClockRunning]);
+
+  // 自己的钟走完立即判负；对手的钟需超出宽限时间，以免与在途的落子冲突
+  useEffect(() => {
+    if (!isClockRunning || myColor === 'spectator') return;
+    const player = gameState.currentPlayer;
+    const isRemote = isConnected && !aiColor && player !== myColor;
+    const elapsed = now - gameState.turnStartedAt! - (isRemote ? TIMEOUT_GRACE : 0);
+    if (Clock.run(gameState.clocks[player], gameState.timeControl, elapsed).flagged) declareTimeout(player);
+  }, [now]);
+
+  useEffect(() => {
+    if (!gameState.result) return;
+    if (!reviewTree) addSystemMessage(`对局结束：${Result.describe(gameState.result, gameState.scoringMethod)}。`);
+    // 终局后无需再回到这盘棋
+    forgetSession();
+  }, [gameState.result]);
+
+  // 与电脑、引擎或联机对手下完的棋计入等级分；观战、打开旧局与本地双人对弈不计
+  useEffect(() => {
+    const result = gameState.result;
+    const gameId = gameIdRef.current;
+    if (!result || !gameId || myColor === 'spectator' || (!aiColor && !sessionRef.current)) return;
+    const opponent = !aiColor ? Profile.onlineOpponent(opponentProfile, opponentIdRef.current ?? '')
+      : engineName ? Profile.engineOpponent(engineName) : Profile.aiOpponent(aiLevel);
+    const next = Profile.record(playerRecord, {
+      gameId, date: result.date, opponent, color: myColor, boardSize, outcome: Profile.outcome(result, myColor),
+    });
+    if (next === playerRecord) return;
+    setPlayerRecord(next);
+    addSystemMessage(`等级分 ${Math.round(playerRecord.profile.rating)} → ${Math.round(next.profile.rating)}`);
+  }, [gameState.result]);
+
+  useEffect(() => {
+    GameStore.loadCurrent().then(setSavedGame).catch(err => console.warn('Failed to load saved game:', err));
   }, []);
 
-  const setupConnection = (conn: any) => {
-    conn.on('data', (data: NetworkMessage) => handleNetworkMessage(data));
-    conn.on('close', () => { 
+  // 每步之后自动保存进行中的对局，终局后归入棋谱库
+  useEffect(() => {
+    const id = gameIdRef.current;
+    if (!id || view !== 'game' || myColor === 'spectator' || gameState.moves.length === 0) return;
+    const role = roleRef.current;
+    const record: SavedGame = {
+      id,
+      date: gameState.result?.date ?? new Date().toISOString(),
+      mode: aiColor ? 'ai' : sessionRef.current ? 'online' : 'local',
+      opponent: describeOpponent(),
+      myColor,
+      aiColor,
+      aiLevel,
+      settings,
+      state: gameState,
+      chatLog,
+      session: sessionRef.current && role ? {
+        id: sessionRef.current,
+        role,
+        peer: (role === 'guest' ? hostIdRef.current : opponentIdRef.current) ?? '',
+        outSeq: outSeqRef.current,
+        inSeq: inSeqRef.current,
+      } : null,
+    };
+    const saved = gameState.result ? GameStore.archive(record).then(() => GameStore.clearCurrent()) : GameStore.saveCurrent(record);
+    saved.catch(err => console.warn('Autosave failed:', err));
+    setSavedGame(gameState.result ? null : record);
+  }, [gameState, chatLog]);
+
+  const clockFor = (player: PlayerColor) => {
+    const running = isClockRunning && gameState.currentPlayer === player;
+    return Clock.run(gameState.clocks[player], gameState.timeControl, running ? now - gameState.turnStartedAt! : 0).clock;
+  };
+
+  const beginSession = (sessionId: string | null) => {
+    sessionRef.current = sessionId;
+    outSeqRef.current = 0;
+    inSeqRef.current = 0;
+    outboxRef.current = [];
+  };
+
+  const forgetSession = () => {
+    localStorage.removeItem(SESSION_KEY);
+    setSavedSession(null);
+  };
+
+  // 向对手发送，会话内的对局消息编号留底；主机同时把观众需要的消息广播出去
+  const send = (msg: NetworkMessage) => {
+    const stamped = Protocol.stamp(msg);
+    let out = stamped;
+    if (sessionRef.current && SEQUENCED_MESSAGES.includes(msg.type)) {
+      out = { ...stamped, seq: ++outSeqRef.current };
+      outboxRef.current.push(out);
+    }
+    connRef.current?.send(out);
+    if (SPECTATOR_MESSAGES.includes(msg.type)) spectatorsRef.current.forEach(c => c.send(stamped));
+  };
+
+  const updateViewers = () => {
+    const ids = spectatorsRef.current.map(c => c.peer as string);
+    setViewers(ids);
+    send({ type: 'VIEWERS', payload: ids });
+  };
+
+  const sayHello = (conn: Connection) => {
+    const proposal = helloProposalRef.current;
+    conn.send(Protocol.stamp({ type: 'HELLO', payload: { sessionId: sessionRef.current, lastSeq: inSeqRef.current, profile: profileRef.current, ...(proposal ? { proposal } : {}) } }));
+  };
+
+  // 对局进行中而对手座位空着时，只有持原会话号的一方能回到座位，其余来者一律观战
+  const admitPeer = (conn: Connection, hello: MessagePayloads['HELLO']) => {
+    const session = sessionRef.current;
+    const seatReserved = !!session && !connRef.current && !gameStateRef.current.gameOver;
+    if (seatReserved && hello.sessionId === session) {
+      setOpponentProfile(hello.profile ?? null);
+      resumeOpponent(conn, hello.lastSeq);
+      return;
+    }
+    if (connRef.current || seatReserved) {
+      addSpectator(conn);
+      return;
+    }
+    roleRef.current = 'host';
+    connRef.current = conn;
+    opponentIdRef.current = conn.peer;
+    setOpponentProfile(hello.profile ?? null);
+    setIsConnected(true);
+    setIsAwaitingSetup(true);
+    setView('game');
+    setupConnection(conn);
+    conn.send(Protocol.stamp({ type: 'PROFILE', payload: profileRef.current }));
+    beginSession(Math.random().toString(36).slice(2, 10));
+    // 对方经邀请链接带来了设置：先由主机决定用哪一套
+    if (hello.proposal) {
+      setInviteProposal(hello.proposal);
+      return;
+    }
+    proposeSetup(settingsRef.current);
+  };
+
+  // 猜先在主机端决定，连同设置一起发给对方确认
+  const proposeSetup = (s: GameSettings) => {
+    const hostColor: PlayerColor = s.hostColor === 'nigiri' ? (Math.random() < 0.5 ? 'black' : 'white') : s.hostColor;
+    proposedSettingsRef.current = { ...s, hostColor };
+    connRef.current?.send(Protocol.stamp({ type: 'SETUP_PROPOSE', payload: proposedSettingsRef.current, session: sessionRef.current! }));
+  };
+
+  const respondToInvite = (agreed: boolean) => {
+    const proposal = inviteProposal;
+    setInviteProposal(null);
+    if (!proposal || !connRef.current) return;
+    if (agreed) setSettings(proposal);
+    proposeSetup(agreed ? proposal : settingsRef.current);
+  };
+
+  // 对手带着原会话号回来：告知其座位与对方已收到的序号，再补发其错过的消息
+  const resumeOpponent = (conn: Connection, lastSeq: number) => {
+    connRef.current = conn;
+    opponentIdRef.current = conn.peer;
+    setIsConnected(true);
+    setOpponentLeft(false);
+    setupConnection(conn);
+    const color: PlayerColor = myColorRef.current === 'white' ? 'black' : 'white';
+    conn.send(Protocol.stamp({ type: 'WELCOME', payload: { color, settings: settingsRef.current, lastSeq: inSeqRef.current } }));
+    conn.send(Protocol.stamp({ type: 'PROFILE', payload: profileRef.current }));
+    replayMissed(lastSeq);
+    addSystemMessage("对手已重新连接，对局继续。");
+  };
+
+  // 补发对方尚未收到的留底消息。对方一条都没收到，或本方留底不全（刷新过页面）时无从补起，
+  // 改为以主机局面整盘同步
+  const replayMissed = (lastSeq: number) => {
+    const missed = outboxRef.current.filter(m => m.seq! > lastSeq);
+    const complete = lastSeq >= outSeqRef.current || missed[0]?.seq === lastSeq + 1;
+    if (complete && !(lastSeq === 0 && roleRef.current === 'host')) {
+      missed.forEach(m => connRef.current?.send(m));
+      return;
+    }
+    if (roleRef.current === 'host') send({ type: 'SYNC', payload: { gameState: gameStateRef.current, chatLog: chatLogRef.current } });
+    else send({ type: 'SYNC_REQ', payload: null });
+  };
+
+  // 双方局面哈希不一致时以主机为准：主机直接下发局面，客人请求主机下发
+  const resync = (state: GameState) => {
+    if (myColorRef.current === 'spectator') return;
+    if (roleRef.current === 'host') send({ type: 'SYNC', payload: { gameState: state } });
+    else send({ type: 'SYNC_REQ', payload: null });
+  };
+
+  // 观众连接只发不收，入场时先补发设置与当前局面
+  const addSpectator = (conn: Connection) => {
+    spectatorsRef.current = [...spectatorsRef.current, conn];
+    conn.send(Protocol.stamp({ type: 'SPECTATE', payload: settingsRef.current }));
+    conn.send(Protocol.stamp({ type: 'SYNC', payload: { gameState: gameStateRef.current, chatLog: chatLogRef.current } }));
+    addSystemMessage(`观众 ${conn.peer.slice(0, 6)} 加入。`);
+    updateViewers();
+    conn.onClose(() => {
+      spectatorsRef.current = spectatorsRef.current.filter(c => c !== conn);
+      updateViewers();
+    });
+  };
+
+  const setupConnection = (conn: Connection) => {
+    conn.onMessage(raw => {
+      const { message: data, error } = Protocol.parse(raw);
+      if (!data) {
+        console.warn('Rejected message:', error);
+        return;
+      }
+      if (data.seq !== undefined) {
+        // 重连补发的消息可能已经收到过，按序号去重
+        if (data.seq <= inSeqRef.current) return;
+        inSeqRef.current = data.seq;
+      }
+      if (roleRef.current === 'host' && SPECTATOR_MESSAGES.includes(data.type)) {
+        // 序号只在双方之间有效，转发给观众时去掉
+        const { seq: _seq, ...plain } = data;
+        spectatorsRef.current.forEach(c => c.send(Protocol.stamp(plain)));
+      }
+      handleNetworkMessage(data);
+    });
+    conn.onClose(() => { 
+      if (connRef.current !== conn) return;
+      connRef.current = null;
       setIsConnected(false); 
-      addSystemMessage("对手断开连接。"); 
+      const resumable = !!sessionRef.current && !gameStateRef.current.gameOver && myColorRef.current !== 'spectator';
+      addSystemMessage(myColorRef.current === 'spectator' ? "主机断开连接。" : !resumable ? "对手断开连接。" : roleRef.current === 'host' ? "对手断开连接，等待其重连..." : "连接中断，正在重连..."); 
       setIsWaitingUndoResponse(false);
       setShowUndoRequestModal(false);
+      setIsAwaitingSetup(false);
+      setSetupProposal(null);
+      setInviteProposal(null);
+      setIsWaitingDrawResponse(false);
+      setShowDrawOfferModal(false);
+      setIsWaitingRestartResponse(false);
+      setShowRestartRequestModal(false);
+      setLoadProposal(null);
+      pendingLoadRef.current = null;
+      // 对局中途断线：等待期间暂停落子，迟迟不回来的一方可判弃权
+      if (!gameStateRef.current.gameOver && myColorRef.current !== 'spectator') setOpponentLeft(true);
+      if (resumable && roleRef.current === 'guest') reconnect();
     });
   };
 
-  const connectToPeer = (id: string) => {
-    if (!peerRef.current || !id) return;
+  // 带上会话号即为回到原对局，主机认出后回 WELCOME，否则按新挑战处理
+  const connectToPeer = (id: string, sessionId: string | null = null, proposal: GameSettings | null = null) => {
+    if (!transportRef.current || !id) return;
     try {
-      const conn = peerRef.current.connect(id);
+      const conn = transportRef.current.connect(id);
+      roleRef.current = 'guest';
+      helloProposalRef.current = proposal;
+      hostIdRef.current = id;
+      opponentIdRef.current = id;
+      setOpponentProfile(null);
+      beginSession(sessionId);
       connRef.current = conn;
       setIsConnected(true);
-      setMyColor('white');
+      setIsAwaitingSetup(true);
       setView('game');
       setupConnection(conn);
+      conn.onOpen(() => sayHello(conn));
     } catch (e) { addSystemMessage("连接失败。"); }
   };
 
+  // 客人断线后按间隔重试，本地局面与会话保持不动，连上后由 WELCOME 补齐
+  const reconnect = (attempt: number = 1) => {
+    window.clearTimeout(reconnectTimerRef.current);
+    const transport = transportRef.current;
+    if (connRef.current || !transport || !hostIdRef.current) return;
+    setIsReconnecting(true);
+    const conn = transport.connect(hostIdRef.current);
+    conn.onOpen(() => {
+      connRef.current = conn;
+      setIsConnected(true);
+      setupConnection(conn);
+      sayHello(conn);
+    });
+    reconnectTimerRef.current = window.setTimeout(() => {
+      if (connRef.current) return;
+      conn.close();
+      if (attempt < RECONNECT_ATTEMPTS) reconnect(attempt + 1);
+      else {
+        setIsReconnecting(false);
+        addSystemMessage("重连失败，可稍后在大厅重新加入。");
+      }
+    }, RECONNECT_DELAY);
+  };
+
+  // 对方的“同意”类消息：本方确有请求在等答复，或本方是观众（由主机转发）时才生效
+  const isAwaited = (request: 'undo' | 'draw' | 'restart') => awaitingRef.current[request] || myColorRef.current === 'spectator';
+
+  // 消息结构已由 Protocol 校验；这里再按角色与对局状态决定是否受理
   const handleNetworkMessage = (msg: NetworkMessage) => {
+    const isHost = roleRef.current === 'host';
     switch (msg.type) {
-      case 'MOVE': executeMove(msg.payload, false); break;
-      case 'PASS': processPass(false); break;
+      case 'MOVE': executeMove(msg.payload.point, false, msg.payload.at === undefined ? undefined : msg.payload as MoveStamp); break;
+      case 'PASS': processPass(false, msg.payload.at === undefined ? undefined : msg.payload as MoveStamp); break;
       case 'CHAT': receiveChat(msg.payload); break;
-      case 'UNDO_REQ': setShowUndoRequestModal(true); break;
+      case 'UNDO_REQ': if (!gameStateRef.current.gameOver) setShowUndoRequestModal(true); break;
       case 'UNDO_ACCEPT': 
+        if (!isAwaited('undo')) break;
         performUndoAction(); 
         setIsWaitingUndoResponse(false); 
         setMessage("悔棋成功");
@@ -145,11 +736,191 @@ const App: React.FC = () => {
         setMessage("对方拒绝了悔棋"); 
         setTimeout(() => setMessage(''), 1500); 
         break;
-      case 'SYNC': 
-        setGameState(msg.payload.gameState);
-        setChatLog(msg.payload.chatLog || []);
+      // 主机的局面是权威的，客人发来的整盘同步一律不受理
+      case 'SYNC': if (!isHost) applySync(msg.payload); break;
+      case 'RESTART': if (gameStateRef.current.gameOver) resetGame(false); break;
+      case 'RESTART_REQ': if (!gameStateRef.current.gameOver) setShowRestartRequestModal(true); break;
+      case 'RESTART_ACCEPT':
+        if (!isAwaited('restart')) break;
+        setIsWaitingRestartResponse(false);
+        resetGame(false);
+        break;
+      case 'RESTART_DECLINE':
+        setIsWaitingRestartResponse(false);
+        setMessage("对方拒绝重新开局");
+        setTimeout(() => setMessage(''), 1500);
+        break;
+      case 'LOAD_REQ': setLoadProposal(msg.payload); break;
+      case 'LOAD_ACCEPT': {
+        const pending = pendingLoadRef.current;
+        pendingLoadRef.current = null;
+        if (pending?.game) applyImport(pending.game, pending.state, pending.log);
+        else if (pending) applyPosition(pending.state);
+        else if (myColorRef.current === 'spectator') applySync(msg.payload);
+        break;
+      }
+      case 'LOAD_DECLINE':
+        pendingLoadRef.current = null;
+        setMessage("对方拒绝载入棋谱");
+        setTimeout(() => setMessage(''), 1500);
+        break;
+      case 'MARK_DEAD': applyDeadStones(msg.payload); break;
+      case 'ACCEPT_SCORE': if (msg.payload !== myColorRef.current) acceptScore(msg.payload, false); break;
+      case 'RESUME': resumePlay(false); break;
+      case 'TIMEOUT': declareTimeout(msg.payload, false); break;
+      case 'RESIGN': if (msg.payload !== myColorRef.current) resign(msg.payload, false); break;
+      case 'SPECTATE':
+        if (isHost) break;
+        helloProposalRef.current = null;
+        setMyColor('spectator');
+        setSettings(msg.payload);
+        setIsAwaitingSetup(false);
+        addSystemMessage("对局已有双方，你以观众身份加入。");
+        break;
+      case 'VIEWERS': if (!isHost) setViewers(msg.payload); break;
+      case 'DRAW_OFFER': if (!gameStateRef.current.gameOver) setShowDrawOfferModal(true); break;
+      case 'DRAW_ACCEPT':
+        if (!isAwaited('draw')) break;
+        setIsWaitingDrawResponse(false);
+        agreeDraw();
+        break;
+      case 'DRAW_DECLINE':
+        setIsWaitingDrawResponse(false);
+        setMessage("对方拒绝和棋");
+        setTimeout(() => setMessage(''), 1500);
+        break;
+      case 'SETUP_PROPOSE':
+        if (isHost) break;
+        setIsReconnecting(false);
+        beginSession(msg.session ?? null);
+        // 主机采纳了本方链接里的设置就不必再确认一遍
+        if (helloProposalRef.current && Invite.matches(msg.payload, helloProposalRef.current)) acceptSetup(msg.payload);
+        else setSetupProposal(msg.payload);
+        helloProposalRef.current = null;
+        break;
+      case 'WELCOME':
+        if (isHost) break;
+        // 主机认出了本方的会话：回到原座位，再补发本方断线前没送达的消息
+        window.clearTimeout(reconnectTimerRef.current);
+        setIsReconnecting(false);
+        setMyColor(msg.payload.color);
+        setSettings(msg.payload.settings);
+        setIsAwaitingSetup(false);
+        setOpponentLeft(false);
+        setView('game');
+        outSeqRef.current = Math.max(outSeqRef.current, msg.payload.lastSeq);
+        replayMissed(msg.payload.lastSeq);
+        addSystemMessage("已重新连接，对局继续。");
+        break;
+      case 'SYNC_REQ':
+        if (isHost) send({ type: 'SYNC', payload: { gameState: gameStateRef.current } });
+        break;
+      case 'SETUP_ACCEPT':
+        if (isHost && proposedSettingsRef.current) {
+          const proposed = proposedSettingsRef.current;
+          proposedSettingsRef.current = null;
+          // 以主机的初始局面为准同步一次，双方的规则与棋盘保持一致
+          const state = startGame(proposed, proposed.hostColor as PlayerColor, true);
+          send({ type: 'SYNC', payload: { gameState: state } });
+        }
         break;
-      case 'RESTART': resetGame(false); break;
+      case 'SETUP_DECLINE':
+        if (!isHost) break;
+        beginSession(null);
+        setIsAwaitingSetup(false);
+        addSystemMessage("对手拒绝了对局设置。");
+        connRef.current?.close();
+        setView('lobby');
+        break;
+      case 'PROFILE': setOpponentProfile(msg.payload); break;
+      case 'HELLO': break;
+    }
+  };
+
+  // 规则随局面一起同步，本地设置跟着对齐，复盘与重开才不会走样
+  const applySync = ({ gameState: synced, chatLog: log }: SyncPayload) => {
+    updateGame(synced.turnStartedAt === null ? synced : Clock.start(synced));
+    setSettings(s => ({ ...s, boardSize: synced.board.length, komi: synced.komi, ruleSet: synced.ruleSet, scoringMethod: synced.scoringMethod }));
+    if (log) setChatLog(log);
+  };
+
+  const startGame = (s: GameSettings, color: PlayerColor, online: boolean = false): GameState => {
+    const state = Clock.start(GameFlow.create(s));
+    gameIdRef.current = newGameId();
+    setSettings(s);
+    setMyColor(color);
+    updateGame(state);
+    setAiColor(null);
+    closeEngine();
+    stopAnalysis();
+    setReviewTree(null);
+    setImportedSgf(null);
+    setIsAwaitingSetup(false);
+    setPendingMove(null);
+    setMyEmojiCount(0);
+    setOpponentLeft(false);
+    addSystemMessage(`对局开始：${describeSettings(s)}${online ? `，你执${color === 'black' ? '黑' : '白'}` : ''}。`);
+    return state;
+  };
+
+  const startAiGame = () => {
+    const humanColor: PlayerColor = settings.hostColor === 'nigiri' ? (Math.random() < 0.5 ? 'black' : 'white') : settings.hostColor;
+    beginSession(null);
+    startGame(settings, humanColor, true);
+    setAiColor(humanColor === 'black' ? 'white' : 'black');
+    setView('game');
+  };
+
+  const closeEngine = () => {
+    gtpRef.current?.close();
+    gtpRef.current = null;
+    setEngineName(null);
+  };
+
+  // 经 GTP 桥连接外部引擎，由它代替内置电脑执子
+  const startEngineGame = async () => {
+    const url = engineUrl.trim() || DEFAULT_GTP_URL;
+    localStorage.setItem(GTP_URL_KEY, url);
+    const client = new GtpClient(new GtpSocket(url));
+    setIsEngineConnecting(true);
+    try {
+      const name = await client.command('name');
+      const humanColor: PlayerColor = settings.hostColor === 'nigiri' ? (Math.random() < 0.5 ? 'black' : 'white') : settings.hostColor;
+      beginSession(null);
+      startGame(settings, humanColor, true);
+      gtpRef.current = client;
+      setEngineName(name || 'GTP');
+      setAiColor(humanColor === 'black' ? 'white' : 'black');
+      setView('game');
+    } catch (err) {
+      client.close();
+      alert(`无法连接引擎：${(err as Error).message}`);
+    } finally {
+      setIsEngineConnecting(false);
+    }
+  };
+
+  const acceptSetup = (proposal: GameSettings) => {
+    send({ type: 'SETUP_ACCEPT', payload: null });
+    startGame(proposal, proposal.hostColor === 'black' ? 'white' : 'black', true);
+    if (sessionRef.current && hostIdRef.current) {
+      const saved: SavedSession = { sessionId: sessionRef.current, hostId: hostIdRef.current };
+      localStorage.setItem(SESSION_KEY, JSON.stringify(saved));
+      setSavedSession(saved);
+    }
+  };
+
+  const respondToSetup = (agreed: boolean) => {
+    const proposal = setupProposal;
+    setSetupProposal(null);
+    if (!proposal || !connRef.current) return;
+    if (agreed) {
+      acceptSetup(proposal);
+    } else {
+      beginSession(null);
+      send({ type: 'SETUP_DECLINE', payload: null });
+      setIsAwaitingSetup(false);
+      setView('lobby');
     }
   };
 
@@ -158,15 +929,39 @@ const App: React.FC = () => {
       id: Date.now().toString(),
       sender: '系统',
       text,
-      color: 'spectator'
+      color: 'spectator',
+      moveNumber: gameStateRef.current.moves.length
     };
     setChatLog(prev => [...prev, sysMsg]);
   };
 
   const onBoardClick = (p: Point) => {
-    if (gameState.gameOver || isWaitingUndoResponse || showUndoRequestModal) return;
-    if (isConnected && gameState.currentPlayer !== myColor) {
-      setMessage("还没轮到你");
+    if (editor) {
+      setEditor(e => e && Editor.apply(e, p, editorTool));
+      return;
+    }
+    if (reviewTree) {
+      const result = Review.play(reviewTree, { player: Review.current(reviewTree).state.currentPlayer, point: p });
+      if (result.error) {
+        setMessage('无效步');
+        setTimeout(() => setMessage(''), 1200);
+      }
+      setReviewTree(result.tree);
+      return;
+    }
+    if (myColor === 'spectator') return;
+    if (gameState.gameOver || isWaitingUndoResponse || showUndoRequestModal || showDrawOfferModal || showRestartRequestModal || loadProposal || showResignConfirm || isAwaitingSetup) return;
+    if (gameState.isScoring) {
+      if (myColor !== 'spectator') toggleDeadGroup(p);
+      return;
+    }
+    if (opponentLeft) {
+      setMessage("等待对方重连");
+      setTimeout(() => setMessage(''), 800);
+      return;
+    }
+    if ((isConnected || aiColor) && gameState.currentPlayer !== myColor) {
+      setMessage(aiColor ? "电脑思考中" : "还没轮到你");
       setTimeout(() => setMessage(''), 800);
       return;
     }
@@ -181,45 +976,65 @@ const App: React.FC = () => {
     }
   };
 
-  const executeMove = (p: Point, shouldSend: boolean = true) => {
-    setGameState(prev => {
-      const validation = GoRules.isValidMove(prev.board, p, prev.currentPlayer, prev.history.map(h => h.board));
-      if (!validation.valid || !validation.newBoard) {
-        if (shouldSend) {
-          setMessage(validation.error === 'Suicide move is illegal' ? '不能自杀' : '无效步');
-          setTimeout(() => setMessage(''), 1200);
-        }
-        return prev;
+  // 本方落子用本地时间计时；对方的落子沿用消息里的用时，只要不偏离本方量得的用时太多，双方扣时就一致
+  const stampMove = (state: GameState): MoveStamp => {
+    const at = Date.now();
+    return { at, elapsed: state.turnStartedAt === null ? 0 : at - state.turnStartedAt };
+  };
+
+  // 对方自报的用时不可全信：不少于本方量得的用时减去延迟余量，也不多于本方量得的用时
+  const boundStamp = (state: GameState, stamp: MoveStamp): MoveStamp => {
+    const measured = state.turnStartedAt === null ? 0 : Math.max(0, Date.now() - state.turnStartedAt);
+    const reported = Number.isFinite(stamp.elapsed) ? stamp.elapsed : measured;
+    return { ...stamp, elapsed: Math.min(measured, Math.max(measured - LATENCY_ALLOWANCE, reported, 0)) };
+  };
+
+  // 对方的落子须轮到对方且落在盘内；不合规的拒收，并按主机局面重新对齐
+  const isRemoteTurn = (state: GameState, p?: Point) =>
+    state.currentPlayer !== myColorRef.current && (!p || (p.x < state.board.length && p.y < state.board.length));
+
+  const executeMove = (p: Point, shouldSend: boolean = true, stamp?: MoveStamp) => {
+    const prev = gameStateRef.current;
+    if (prev.gameOver) return;
+    if (!shouldSend && !isRemoteTurn(prev, p)) {
+      console.warn('Rejected out-of-turn move:', p);
+      resync(prev);
+      return;
+    }
+    const result = GameFlow.playMove(prev, p);
+    if (!result.valid || !result.state) {
+      if (shouldSend) {
+        setMessage(result.error === 'Suicide move is illegal' ? '不能自杀' : '无效步');
+        setTimeout(() => setMessage(''), 1200);
+      } else {
+        // 对方那边却落成了，双方局面已经不同，不论有没有附带计时都要重新对齐
+        console.warn('Rejected illegal move:', p, result.error);
+        resync(prev);
       }
-      const currentSnapshot: HistoryEntry = {
-        board: JSON.stringify(prev.board),
-        captured: { ...prev.captured },
-        lastMove: prev.lastMove,
-        player: prev.currentPlayer
-      };
-      if (shouldSend && connRef.current) connRef.current.send({ type: 'MOVE', payload: p });
-      setMessage('');
-      return {
-        ...prev,
-        board: validation.newBoard,
-        currentPlayer: prev.currentPlayer === 'black' ? 'white' : 'black',
-        captured: {
-            ...prev.captured,
-            [prev.currentPlayer]: prev.captured[prev.currentPlayer] + (validation.captured || 0)
-        },
-        history: [...prev.history, currentSnapshot],
-        passCount: 0,
-        lastMove: p,
-      };
-    });
+      return;
+    }
+    const timing = stamp ? boundStamp(prev, stamp) : stampMove(prev);
+    // 自由摆放让子不计时
+    const next = prev.handicapToPlace > 0 ? Clock.start(result.state) : Clock.commit(result.state, prev.currentPlayer, timing.elapsed);
+    if (next.result) {
+      const loser = Result.loser(next.result)!;
+      updateGame(Clock.flag(prev, loser));
+      if (shouldSend) send({ type: 'TIMEOUT', payload: loser });
+      return;
+    }
+    updateGame(next);
+    if (shouldSend) send({ type: 'MOVE', payload: { point: p, ...timing, hash: GoRules.hash(next.board) } });
+    else if (stamp?.hash !== undefined && GoRules.hash(next.board) !== stamp.hash) resync(next);
+    setMessage('');
   };
 
   const requestUndo = () => {
-    if (gameState.history.length === 0 || gameState.gameOver || isWaitingUndoResponse) return;
+    if (myColor === 'spectator') return;
+    if (!GameFlow.canUndo(gameState) || gameState.gameOver || gameState.isScoring || gameState.handicapToPlace > 0 || isWaitingUndoResponse || opponentLeft) return;
     if (!isConnected) { performUndoAction(); return; }
     setIsWaitingUndoResponse(true);
     addSystemMessage("申请悔棋中...");
-    if (connRef.current) connRef.current.send({ type: 'UNDO_REQ', payload: null });
+    send({ type: 'UNDO_REQ', payload: null });
   };
 
   const respondToUndoRequest = (agreed: boolean) => {
@@ -227,76 +1042,189 @@ const App: React.FC = () => {
     if (!connRef.current) return;
     if (agreed) {
       performUndoAction();
-      connRef.current.send({ type: 'UNDO_ACCEPT', payload: null });
+      send({ type: 'UNDO_ACCEPT', payload: null });
     } else {
-      connRef.current.send({ type: 'UNDO_DECLINE', payload: null });
+      send({ type: 'UNDO_DECLINE', payload: null });
     }
   };
 
   const performUndoAction = () => {
-    setGameState(prev => {
-      if (prev.history.length === 0) return prev;
-      const last = prev.history[prev.history.length - 1];
-      return {
-        ...prev,
-        board: JSON.parse(last.board),
-        captured: last.captured,
-        currentPlayer: last.player,
-        lastMove: last.lastMove,
-        history: prev.history.slice(0, -1),
-        passCount: 0,
-      };
-    });
+    // 人机对弈连同电脑的应手一起悔回
+    let next = GameFlow.undo(gameStateRef.current);
+    if (aiColor && next.currentPlayer === aiColor) next = GameFlow.undo(next);
+    updateGame(next.turnStartedAt === null ? next : Clock.start(next));
     setMessage('');
   };
 
-  const processPass = (shouldSend: boolean = true) => {
-    if (gameState.gameOver) return;
-    if (isConnected && gameState.currentPlayer !== myColor && shouldSend) return;
-    setGameState(prev => {
-      const nextPassCount = prev.passCount + 1;
-      const isGameOver = nextPassCount >= 2;
-      if (shouldSend && connRef.current) connRef.current.send({ type: 'PASS', payload: null });
-      addSystemMessage(`${prev.currentPlayer === 'black' ? '黑方' : '白方'} 跳过。`);
-      return { 
-          ...prev, 
-          currentPlayer: prev.currentPlayer === 'black' ? 'white' : 'black', 
-          passCount: nextPassCount, 
-          gameOver: isGameOver, 
-          lastMove: null 
-      };
+  const processPass = (shouldSend: boolean = true, stamp?: MoveStamp) => {
+    // 对方的跳过经连接建立时注册的回调进来，一律读 ref，不能用那时渲染出的旧局面
+    const prev = gameStateRef.current;
+    if (prev.gameOver || prev.isScoring || prev.handicapToPlace > 0) return;
+    if (shouldSend) {
+      if ((isConnectedRef.current || aiColorRef.current) && prev.currentPlayer !== myColorRef.current) return;
+      if (opponentLeftRef.current) return;
+    } else if (!isRemoteTurn(prev)) {
+      console.warn('Rejected out-of-turn pass');
+      resync(prev);
+      return;
+    }
+    const timing = stamp ? boundStamp(prev, stamp) : stampMove(prev);
+    const next = Clock.commit(GameFlow.pass(prev), prev.currentPlayer, timing.elapsed);
+    if (next.result) {
+      const loser = Result.loser(next.result)!;
+      updateGame(Clock.flag(prev, loser));
+      if (shouldSend) send({ type: 'TIMEOUT', payload: loser });
+      return;
+    }
+    updateGame(next);
+    if (shouldSend) send({ type: 'PASS', payload: { ...timing, hash: GoRules.hash(next.board) } });
+    else if (stamp?.hash !== undefined && GoRules.hash(next.board) !== stamp.hash) resync(next);
+    addSystemMessage(`第 ${prev.moves.length + 1} 手：${prev.currentPlayer === 'black' ? '黑方' : '白方'} 跳过。`);
+    if (next.isScoring) addSystemMessage("双方跳过，点击棋块标记死子。");
+  };
+
+  const toggleDeadGroup = (p: Point) => {
+    const prev = gameStateRef.current;
+    const deadStones = Scoring.toggleDeadGroup(prev.board, prev.deadStones, p);
+    if (deadStones === prev.deadStones) return;
+    updateGame({ ...prev, deadStones, scoreAccepted: { black: false, white: false } });
+    send({ type: 'MARK_DEAD', payload: deadStones });
+  };
+
+  const applyDeadStones = (deadStones: Point[]) => {
+    const prev = gameStateRef.current;
+    const size = prev.board.length;
+    if (!prev.isScoring || deadStones.some(p => p.x >= size || p.y >= size || prev.board[p.y][p.x] === null)) return;
+    updateGame({ ...prev, deadStones, scoreAccepted: { black: false, white: false } });
+  };
+
+  const acceptScore = (color: PlayerColor, shouldSend: boolean = true) => {
+    const prev = gameStateRef.current;
+    if (!prev.isScoring || prev.gameOver) return;
+    if (shouldSend) send({ type: 'ACCEPT_SCORE', payload: color });
+    // 本地对弈一人确认即视为双方同意；来自网络的确认一定是联机对局
+    const online = isConnectedRef.current || !shouldSend;
+    const scoreAccepted = online ? { ...prev.scoreAccepted, [color]: true } : { black: true, white: true };
+    if (!scoreAccepted.black || !scoreAccepted.white) {
+      updateGame({ ...prev, scoreAccepted });
+      return;
+    }
+    const score = Scoring.score(prev.board, prev.captured, prev.komi, prev.scoringMethod, prev.deadStones);
+    updateGame({ ...Result.finish(prev, score.winner, 'score', score.margin), scoreAccepted, score });
+  };
+
+  // 只有点目阶段才能回到对局，其他时候对方发来的 RESUME 一概不理
+  const resumePlay = (shouldSend: boolean = true) => {
+    const prev = gameStateRef.current;
+    if (!prev.isScoring || prev.gameOver) return;
+    updateGame({
+      ...Clock.start(prev),
+      isScoring: false,
+      passCount: 0,
+      deadStones: [],
+      scoreAccepted: { black: false, white: false },
     });
+    if (shouldSend) send({ type: 'RESUME', payload: null });
+    addSystemMessage("对死活有异议，继续对局。");
+  };
+
+  const declareTimeout = (player: PlayerColor, shouldSend: boolean = true) => {
+    const prev = gameStateRef.current;
+    if (prev.gameOver) return;
+    // 对方判本方超时，须本方的钟确实已经走完
+    if (!shouldSend && player === myColorRef.current) {
+      const elapsed = prev.currentPlayer === player && prev.turnStartedAt !== null ? Date.now() - prev.turnStartedAt : 0;
+      if (!Clock.run(prev.clocks[player], prev.timeControl, elapsed).flagged) return;
+    }
+    updateGame(Clock.flag(prev, player));
+    if (shouldSend) send({ type: 'TIMEOUT', payload: player });
+  };
+
+  const resign = (player: PlayerColor, shouldSend: boolean = true) => {
+    setShowResignConfirm(false);
+    const prev = gameStateRef.current;
+    if (prev.gameOver) return;
+    updateGame(GameFlow.resign(prev, player));
+    if (shouldSend) send({ type: 'RESIGN', payload: player });
+  };
+
+  const agreeDraw = () => {
+    const prev = gameStateRef.current;
+    if (!prev.gameOver) updateGame(Result.finish(prev, 'draw', 'agreement'));
+  };
+
+  const offerDraw = () => {
+    if (gameState.gameOver || isWaitingDrawResponse || opponentLeft) return;
+    if (aiColor) {
+      // 电脑只在自己不占优时接受和棋
+      if (Ai.evaluate(gameState).winner !== aiColor) agreeDraw();
+      else {
+        setMessage("电脑拒绝和棋");
+        setTimeout(() => setMessage(''), 1500);
+      }
+      return;
+    }
+    if (!isConnected) { agreeDraw(); return; }
+    setIsWaitingDrawResponse(true);
+    addSystemMessage("已提出和棋，等待对方答复...");
+    send({ type: 'DRAW_OFFER', payload: null });
+  };
+
+  const respondToDrawOffer = (agreed: boolean) => {
+    setShowDrawOfferModal(false);
+    if (!connRef.current) return;
+    send({ type: agreed ? 'DRAW_ACCEPT' : 'DRAW_DECLINE', payload: null });
+    if (agreed) agreeDraw();
+  };
+
+  const claimForfeit = () => {
+    setOpponentLeft(false);
+    const prev = gameStateRef.current;
+    if (!prev.gameOver && myColor !== 'spectator') updateGame(Result.finish(prev, myColor, 'forfeit'));
+  };
+
+  // 终局后或本地对弈直接重开；联机对局中途重开须对方同意
+  const requestRestart = () => {
+    if (myColor === 'spectator' || opponentLeft || isWaitingRestartResponse) return;
+    if (!isConnected || gameState.gameOver) { resetGame(); return; }
+    setIsWaitingRestartResponse(true);
+    addSystemMessage("申请重新开局中...");
+    send({ type: 'RESTART_REQ', payload: null });
+  };
+
+  const respondToRestartRequest = (agreed: boolean) => {
+    setShowRestartRequestModal(false);
+    if (!connRef.current) return;
+    send({ type: agreed ? 'RESTART_ACCEPT' : 'RESTART_DECLINE', payload: null });
+    if (agreed) resetGame(false);
   };
 
   const resetGame = (shouldSend: boolean = true) => {
-    const fresh: GameState = {
-      board: Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null)),
-      currentPlayer: 'black',
-      captured: { black: 0, white: 0 },
-      history: [],
-      passCount: 0,
-      gameOver: false,
-      winner: null,
-      lastMove: null,
-    };
-    setGameState(fresh);
+    gameIdRef.current = newGameId();
+    updateGame(Clock.start(GameFlow.create(settingsRef.current)));
+    setReviewTree(null);
+    setImportedSgf(null);
     setMyEmojiCount(0);
+    setOpponentLeft(false);
     addSystemMessage("--- 重新开始 ---");
-    if (shouldSend && connRef.current) connRef.current.send({ type: 'RESTART', payload: null });
+    if (shouldSend) send({ type: 'RESTART', payload: null });
+    // 上一盘算过的等级分告诉对方，下一盘按新分计算
+    if (myColorRef.current !== 'spectator') connRef.current?.send(Protocol.stamp({ type: 'PROFILE', payload: profileRef.current }));
   };
 
   const sendChat = (text: string, isEmoji = false) => {
-    if (!text.trim()) return;
+    if (!text.trim() || myColor === 'spectator') return;
     if (isEmoji && myEmojiCount >= 3) return;
     if (isEmoji) setMyEmojiCount(c => c + 1);
     const msg: ChatMessage = {
       id: Date.now().toString(),
-      sender: myColor === 'black' ? '黑方' : myColor === 'white' ? '白方' : '观战',
-      text, isEmoji, color: myColor as PlayerColor
+      sender: isConnected || aiColor ? playerRecord.profile.name : myColor === 'black' ? '黑方' : '白方',
+      text, isEmoji, color: myColor as PlayerColor,
+      moveNumber: gameState.moves.length
     };
     setChatLog(prev => [...prev, msg]);
     if (isEmoji) { setFloatingEmoji({ emoji: text, id: Date.now() }); setTimeout(() => setFloatingEmoji(null), 1500); }
-    if (connRef.current) connRef.current.send({ type: 'CHAT', payload: msg });
+    send({ type: 'CHAT', payload: msg });
     if (!isEmoji) setInputText('');
   };
 
@@ -305,6 +1233,322 @@ const App: React.FC = () => {
     if (msg.isEmoji) { setFloatingEmoji({ emoji: msg.text, id: Date.now() }); setTimeout(() => setFloatingEmoji(null), 1500); }
   };
 
+  const downloadSgf = (state: GameState, log: ChatMessage[], date: Date = new Date()) => {
+    const blob = new Blob([Sgf.serialize(state, log)], { type: 'application/x-go-sgf' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `weiqi-${date.toISOString().slice(0, 16).replace(/[-:T]/g, '')}.sgf`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportSgf = () => downloadSgf(gameState, chatLog);
+
+  const importSgf = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const game = Sgf.load(await file.text());
+      const state = Sgf.toGameState(game);
+      const log: ChatMessage[] = game.comments.map((c, i) => ({
+        id: `sgf-${i}-${Date.now()}`, sender: '棋谱', text: c.text, color: 'spectator', moveNumber: c.moveNumber
+      }));
+      // 联机时载入棋谱会覆盖双方的局面，须对方同意
+      if (isConnected) {
+        pendingLoadRef.current = { game, state, log };
+        addSystemMessage("已请求对方载入棋谱，等待答复...");
+        send({ type: 'LOAD_REQ', payload: { gameState: state, chatLog: log } });
+        return;
+      }
+      applyImport(game, state, log);
+    } catch (err) {
+      setMessage('棋谱无效');
+      setTimeout(() => setMessage(''), 1500);
+      addSystemMessage(`导入失败：${(err as Error).message}`);
+    }
+  };
+
+  const applyImport = (game: SgfGame, state: GameState, log: ChatMessage[]) => {
+    // 已终局的棋谱只供复盘，不当作新对局保存
+    gameIdRef.current = state.gameOver ? null : newGameId();
+    setSettings(game.settings);
+    updateGame(state);
+    setImportedSgf(game);
+    setReviewTree(null);
+    setChatLog(log);
+    setPendingMove(null);
+    addSystemMessage(`已导入棋谱：${describeSettings(game.settings)}，共 ${game.moves.length} 手。`);
+  };
+
+  const enterEditor = () => {
+    setReviewTree(null);
+    setPendingMove(null);
+    setEditor(Editor.fromState(gameState));
+  };
+
+  // 摆好的局面：本地直接开始，联机时与导入棋谱一样须对方同意
+  const playFromEditor = () => {
+    if (!editor || Editor.invalidStones(editor.board).length > 0) return;
+    const s: GameSettings = { ...settings, boardSize: editor.board.length, handicap: 0 };
+    const state = Clock.start(GameFlow.create(s, [], Editor.toSetup(editor)));
+    setEditor(null);
+    if (isConnected) {
+      pendingLoadRef.current = { game: null, state, log: chatLog };
+      addSystemMessage("已请求对方从摆好的局面开始，等待答复...");
+      send({ type: 'LOAD_REQ', payload: { gameState: state } });
+      return;
+    }
+    applyPosition(state);
+  };
+
+  const applyPosition = (state: GameState) => {
+    gameIdRef.current = newGameId();
+    applySync({ gameState: state });
+    setSettings(s => ({ ...s, handicap: 0 }));
+    setImportedSgf(null);
+    setReviewTree(null);
+    setPendingMove(null);
+    addSystemMessage(`从摆好的局面开始，轮到${state.currentPlayer === 'black' ? '黑方' : '白方'}。`);
+  };
+
+  const respondToLoadRequest = (agreed: boolean) => {
+    const proposal = loadProposal;
+    setLoadProposal(null);
+    if (!proposal || !connRef.current) return;
+    if (agreed) {
+      gameIdRef.current = proposal.gameState.gameOver ? null : newGameId();
+      applySync(proposal);
+      setImportedSgf(null);
+      setReviewTree(null);
+      setPendingMove(null);
+      addSystemMessage(`已载入对方的棋谱，共 ${proposal.gameState.moves.length} 手。`);
+      send({ type: 'LOAD_ACCEPT', payload: proposal });
+    } else {
+      send({ type: 'LOAD_DECLINE', payload: null });
+    }
+  };
+
+  const updateProfile = (changes: { name?: string; avatar?: string }) => {
+    const next = Profile.update(playerRecord, changes);
+    setPlayerRecord(next);
+    if (myColor !== 'spectator') connRef.current?.send(Protocol.stamp({ type: 'PROFILE', payload: next.profile }));
+  };
+
+  // 面板上显示的棋手：联机与人机对局显示资料，本地双人对弈与观战仍按颜色称呼
+  const seatOf = (player: PlayerColor): { name: string; avatar: string; rating: number | null } | null => {
+    const { profile } = playerRecord;
+    if (player === myColor && (aiColor || sessionRef.current)) return { name: profile.name, avatar: profile.avatar, rating: profile.rating };
+    if (player === aiColor) return engineName ? { ...Profile.engineOpponent(engineName), rating: null } : Profile.aiOpponent(aiLevel);
+    if (myColor !== 'spectator' && sessionRef.current && opponentProfile) return opponentProfile;
+    return null;
+  };
+
+  const describeOpponent = (): string => {
+    if (aiColor) return engineName ? `GTP · ${engineName}` : `电脑 · ${AI_LEVELS[aiLevel].label}`;
+    if (sessionRef.current) return `联机 · ${opponentProfile?.name ?? (opponentIdRef.current ?? '').slice(0, 6)}`;
+    return '本地对弈';
+  };
+
+  // 回到上次未下完的对局；联机对局按原会话重连，主机则留着座位等对手回来
+  const resumeSavedGame = (game: SavedGame) => {
+    gameIdRef.current = game.id;
+    setSettings(game.settings);
+    // 旧存档的历史里没有跳过，按着手重放补齐
+    const state = GameFlow.restoreHistory(game.state) ?? game.state;
+    updateGame(state.turnStartedAt === null ? state : Clock.start(state));
+    setChatLog(game.chatLog);
+    setMyColor(game.myColor);
+    setAiColor(game.aiColor);
+    setAiLevel(game.aiLevel);
+    closeEngine();
+    stopAnalysis();
+    setReviewTree(null);
+    setImportedSgf(null);
+    setPendingMove(null);
+    setIsAwaitingSetup(false);
+    setOpponentLeft(false);
+    setView('game');
+    const session = game.session;
+    if (!session) {
+      beginSession(null);
+      return;
+    }
+    if (session.role === 'guest') {
+      connectToPeer(session.peer, session.id);
+      // 沿用原编号，主机才不会把新消息当作重复丢弃
+      outSeqRef.current = session.outSeq;
+      inSeqRef.current = session.inSeq;
+      return;
+    }
+    roleRef.current = 'host';
+    opponentIdRef.current = session.peer;
+    beginSession(session.id);
+    outSeqRef.current = session.outSeq;
+    inSeqRef.current = session.inSeq;
+    setOpponentLeft(true);
+    addSystemMessage("已恢复对局，等待对手重新连接...");
+  };
+
+  const openFromLibrary = (game: SavedGame) => {
+    gameIdRef.current = null;
+    beginSession(null);
+    setSettings(game.settings);
+    updateGame(game.state);
+    setChatLog(game.chatLog);
+    setMyColor(game.myColor);
+    setAiColor(null);
+    closeEngine();
+    stopAnalysis();
+    setImportedSgf(null);
+    setPendingMove(null);
+    setIsAwaitingSetup(false);
+    setOpponentLeft(false);
+    setReviewTree(Review.last(Review.fromMoves(game.settings, game.state.handicapStones, game.state.moves, game.state.setup)));
+    setView('game');
+  };
+
+  // 给出手数时沿主线跳到那一手，否则停在最后
+  const startReview = (moveNumber?: number) => {
+    const tree = importedSgf
+      ? Review.fromSgf(settings, importedSgf.handicapStones, importedSgf.root, importedSgf.setup)
+      : Review.fromMoves(settings, gameState.handicapStones, gameState.moves, gameState.setup);
+    setPendingMove(null);
+    setReviewTree(moveNumber !== undefined ? Review.goToMove(tree, moveNumber) : Review.last(tree));
+  };
+
+  const jumpToMove = (moveNumber: number) => {
+    if (reviewTree) setReviewTree(Review.goToMove(reviewTree, moveNumber));
+    else startReview(moveNumber);
+  };
+
+  // 终局后按实战手顺逐个局面分析，结果边算边画在棋盘下方
+  const startAnalysis = () => {
+    stopAnalysis();
+    const worker = new Worker(new URL('./logic/AnalysisWorker.ts', import.meta.url), { type: 'module' });
+    analysisWorkerRef.current = worker;
+    setAnalysis(Array(gameState.moves.length + 1).fill(null));
+    worker.onmessage = (e: MessageEvent<{ moveNumber: number; eval: PositionEval }>) => {
+      setAnalysis(a => a && a.map((p, i) => i === e.data.moveNumber ? e.data.eval : p));
+    };
+    worker.postMessage({ settings, handicapStones: gameState.handicapStones, moves: gameState.moves, setup: gameState.setup ?? null });
+    if (!reviewTree) startReview();
+  };
+
+  const stopAnalysis = () => {
+    analysisWorkerRef.current?.terminate();
+    analysisWorkerRef.current = null;
+    setAnalysis(null);
+  };
+
+  const renderScoreRow = (label: string, key: keyof SideScore) => (
+    <div className="contents">
+      <span className="text-gray-500 text-left">{label}</span>
+      <span className="text-white">{gameState.score?.black[key]}</span>
+      <span className="text-white">{gameState.score?.white[key]}</span>
+    </div>
+  );
+
+  // 本地对弈由当前行棋方认输，其余情况为本方
+  const resigningColor: PlayerColor | null = myColor === 'spectator' ? null : isConnected || aiColor ? myColor : gameState.currentPlayer;
+  const canEndGame = !gameState.gameOver && !gameState.isScoring && !isAwaitingSetup && resigningColor !== null;
+
+  const displayState = reviewTree ? Review.current(reviewTree).state : gameState;
+  shortcutRef.current = (e: KeyboardEvent) => {
+    if (view !== 'game' || editor || e.ctrlKey || e.metaKey || e.altKey || e.target instanceof HTMLInputElement) return;
+    const key = e.key.toLowerCase();
+    if (key === 'd') setAnnouncement(Narrator.describe(displayState));
+    else if (reviewTree || myColor === 'spectator') return;
+    else if (key === 'p' && !gameState.gameOver) processPass();
+    else if (key === 'u') requestUndo();
+    else if (key === 'r' && canEndGame) setShowResignConfirm(true);
+    else return;
+    e.preventDefault();
+  };
+
+  const isMine = (m: ChatMessage) => myColor !== 'spectator' && m.color === myColor;
+
+  // 点目阶段显示最终的地与死子，其余时候按开关显示影响力估算
+  const reviewBoard = reviewTree ? Review.current(reviewTree).state.board : null;
+  const ownership = useMemo(() => {
+    if (reviewBoard) return overlays.territory ? Influence.ownership(reviewBoard) : null;
+    if (gameState.isScoring) return Influence.final(gameState.board, gameState.deadStones);
+    return overlays.territory ? Influence.ownership(gameState.board) : null;
+  }, [reviewBoard, gameState.board, gameState.isScoring, gameState.deadStones, overlays.territory]);
+
+  const estimate = useMemo(() => {
+    if (gameState.gameOver || gameState.moves.length === 0) return null;
+    const { board, captured, komi, scoringMethod, deadStones } = gameState;
+    return gameState.isScoring ? Scoring.score(board, captured, komi, scoringMethod, deadStones) : Influence.estimate(board, captured, komi, scoringMethod);
+  }, [gameState.board, gameState.captured, gameState.komi, gameState.scoringMethod, gameState.isScoring, gameState.deadStones, gameState.gameOver]);
+
+  const renderEstimate = (player: PlayerColor, className: string) => estimate && (
+    <span className={`font-bold tabular-nums ${className}`}>{gameState.isScoring ? '计' : '估'} {estimate[player].total}</span>
+  );
+
+  const mistakes = useMemo(() => analysis ? Analysis.mistakes(analysis, gameState.moves, boardSize) : [], [analysis]);
+  // 分析曲线上的当前位置；复盘走进变化分支时不在曲线上
+  const reviewNode = reviewTree ? Review.current(reviewTree) : null;
+  const analysisMove = !reviewTree ? gameState.moves.length
+    : Review.goToMove(reviewTree, reviewNode!.moveNumber).currentId === reviewTree.currentId ? reviewNode!.moveNumber : null;
+  // 下一手是失着时，以虚影标出首选点，并圈出实战的着手
+  const mistakeAhead = reviewTree && analysisMove !== null ? mistakes.find(m => m.moveNumber === analysisMove + 1) : undefined;
+  const boardWidth = cellSize * (boardSize - 1 + (showCoordinates ? 2.6 : 1.6));
+
+  const editorInvalid = useMemo(() => editor ? Editor.invalidStones(editor.board) : [], [editor?.board]);
+
+  const toggleOverlay = (key: keyof typeof overlays) => setOverlays(o => ({ ...o, [key]: !o[key] }));
+
+  const toggleChip = (active: boolean) =>
+    `px-3 py-1 rounded-full text-[9px] font-bold border transition-all active:scale-95 ${active ? 'bg-yellow-600/30 border-yellow-500/50 text-yellow-300' : 'bg-white/5 border-white/5 text-gray-500'}`;
+
+  // 聊天中的坐标可悬停，在棋盘上标出该点
+  const renderChatText = (text: string) => Notation.tokenize(text, boardSize).map((seg, i) => seg.point ? (
+    <span key={i} onMouseEnter={() => setHighlight(seg.point!)} onMouseLeave={() => setHighlight(null)} className="underline decoration-dotted decoration-sky-400 text-sky-300 cursor-help">{seg.text}</span>
+  ) : seg.text);
+
+  const renderClock = (player: PlayerColor, className: string) => {
+    if (gameState.timeControl.type === 'none') return null;
+    const clock = clockFor(player);
+    const isLow = Clock.isLow(clock, gameState.timeControl) && gameState.currentPlayer === player;
+    return <span className={`font-mono font-black tabular-nums ${className} ${isLow ? 'text-red-500 animate-pulse' : ''}`}>{Clock.format(clock, gameState.timeControl)}</span>;
+  };
+
+  const seats = { black: seatOf('black'), white: seatOf('white') };
+
+  const renderSeat = (player: PlayerColor, fallback: string, className: string) => {
+    const seat = seats[player];
+    return <span className={`text-[10px] font-bold truncate ${seat ? '' : 'uppercase'} ${className}`}>{seat ? `${seat.avatar} ${seat.name}` : fallback}</span>;
+  };
+
+  const renderRating = (player: PlayerColor, className: string) => {
+    const seat = seats[player];
+    return seat && seat.rating !== null && <p className={`text-[9px] font-mono mb-1 ${className}`}>等级分 {Math.round(seat.rating)}</p>;
+  };
+
+  const roomCode = peerId ? Invite.roomCode(peerId) : null;
+
+  const copyInviteLink = () => {
+    if (!peerId) return;
+    navigator.clipboard.writeText(Invite.link(peerId, settings, transportSettings.kind === 'relay' ? transportSettings.relayUrl : undefined));
+    alert('邀请链接已复制，发给好友打开即可加入');
+  };
+
+  if (view === 'library') {
+    return (
+      <GameLibrary
+        onOpen={openFromLibrary}
+        onExport={game => downloadSgf(game.state, game.chatLog, new Date(game.date))}
+        onClose={() => setView('lobby')}
+      />
+    );
+  }
+
+  if (view === 'tsumego') return <TsumegoView onClose={() => setView('lobby')} />;
+
+  if (view === 'profile') return <ProfileView record={playerRecord} onChange={updateProfile} onClose={() => setView('lobby')} />;
+
   if (view === 'lobby') {
     return (
       <div className="fixed inset-0 bg-[#080808] flex items-center justify-center p-6 text-white overflow-hidden">
@@ -313,24 +1557,77 @@ const App: React.FC = () => {
             <h1 className="title-font text-5xl text-yellow-500 mb-1">Q弹围棋</h1>
             <p className="text-gray-500 text-[10px] font-bold tracking-widest uppercase tracking-widest">Master Edition</p>
           </div>
+          <button onClick={() => setView('profile')} aria-label="棋手资料与战绩" className="bg-black/40 border border-white/5 rounded-xl p-3 flex items-center gap-3 active:bg-black/60 transition-all">
+            <span className="text-2xl">{playerRecord.profile.avatar}</span>
+            <span className="flex-1 min-w-0 text-left text-xs font-bold text-gray-200 truncate">{playerRecord.profile.name}</span>
+            <span className="text-[10px] font-mono text-yellow-500 shrink-0">{Math.round(playerRecord.profile.rating)}</span>
+            <span className="opacity-50 text-xs">📊</span>
+          </button>
           <div className="space-y-1">
-            <span className="text-[10px] font-bold text-gray-500 uppercase px-1">连接 ID</span>
-            <div onClick={() => { if(peerId) { navigator.clipboard.writeText(peerId); alert('已复制'); } }} className="bg-black/40 border border-white/5 rounded-xl p-4 text-xs font-mono text-gray-400 flex items-center justify-between cursor-pointer active:bg-black/60 transition-all">
-               <span className="truncate mr-4">{peerId || '分配中...'}</span>
+            <span className="text-[10px] font-bold text-gray-500 uppercase px-1">{roomCode ? '房间号' : '连接 ID'}</span>
+            <div onClick={() => { if(peerId) { navigator.clipboard.writeText(roomCode ?? peerId); alert('已复制'); } }} className="bg-black/40 border border-white/5 rounded-xl p-4 text-xs font-mono text-gray-400 flex items-center justify-between cursor-pointer active:bg-black/60 transition-all">
+               <span className={`truncate mr-4 ${roomCode ? 'text-base tracking-[0.3em] text-gray-200' : ''}`}>{roomCode ?? (peerId || '分配中...')}</span>
                <span className="opacity-50">📋</span>
             </div>
+            <button onClick={copyInviteLink} disabled={!peerId} className="w-full bg-black/40 border border-white/5 py-2 rounded-lg text-[10px] font-bold text-gray-400 active:scale-95 transition-transform disabled:opacity-40">🔗 复制邀请链接（附当前对局设置）</button>
+          </div>
+          <div className="space-y-1">
+            <span className="text-[10px] font-bold text-gray-500 uppercase px-1">连接方式</span>
+            <div className="flex gap-2">
+              {(['peer', 'relay'] as TransportKind[]).map(kind => (
+                <button key={kind} onClick={() => setTransportSettings(t => ({ ...t, kind }))} className={`flex-1 py-2 rounded-lg text-[10px] font-bold border transition-all ${transportSettings.kind === kind ? 'bg-indigo-700 border-indigo-500' : 'bg-black/40 border-white/5 text-gray-400'}`}>{kind === 'peer' ? 'P2P 直连' : '中继服务器'}</button>
+              ))}
+            </div>
+            {transportSettings.kind === 'relay' && (
+              <input type="text" key={transportSettings.relayUrl} defaultValue={transportSettings.relayUrl} placeholder={DEFAULT_RELAY_URL}
+                onBlur={(e) => { const relayUrl = e.target.value.trim() || DEFAULT_RELAY_URL; if (relayUrl !== transportSettings.relayUrl) setTransportSettings(t => ({ ...t, relayUrl })); }}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-full bg-black/50 border border-white/10 rounded-xl p-3 text-[10px] font-mono outline-none focus:border-indigo-500/40 text-gray-300" />
+            )}
+          </div>
+          <div className="space-y-1">
+            <span className="text-[10px] font-bold text-gray-500 uppercase px-1">对局设置</span>
+            <button onClick={() => setShowSetup(true)} className="w-full bg-black/40 border border-white/5 rounded-xl p-4 text-xs font-bold text-gray-300 flex items-center justify-between active:bg-black/60 transition-all">
+              <span className="truncate mr-4">{describeSettings(settings)}</span>
+              <span className="opacity-50">⚙️</span>
+            </button>
           </div>
           <div className="space-y-4">
-            <button onClick={() => setView('game')} className="w-full bg-yellow-600 py-4 rounded-xl font-bold text-xs uppercase tracking-widest active:scale-95 transition-transform shadow-xl shadow-yellow-900/10">本地对弈</button>
+            {savedGame && (
+              <button onClick={() => resumeSavedGame(savedGame)} className="w-full bg-black/40 border border-yellow-500/40 py-3 rounded-xl font-bold text-[10px] text-yellow-400 tracking-widest active:scale-95 transition-transform flex items-center justify-between px-4">
+                <span>继续对局</span>
+                <span className="text-gray-500 font-mono truncate ml-3">{savedGame.opponent} · 第 {savedGame.state.moves.length} 手</span>
+              </button>
+            )}
+            <button onClick={() => { beginSession(null); startGame(settings, 'black'); setView('game'); }} className="w-full bg-yellow-600 py-4 rounded-xl font-bold text-xs uppercase tracking-widest active:scale-95 transition-transform shadow-xl shadow-yellow-900/10">本地对弈</button>
+            <div className="flex gap-2">
+              {(Object.keys(AI_LEVELS) as AiLevel[]).map(level => (
+                <button key={level} onClick={() => setAiLevel(level)} className={`flex-1 py-2 rounded-lg text-[10px] font-bold border transition-all ${aiLevel === level ? 'bg-emerald-700 border-emerald-500' : 'bg-black/40 border-white/5 text-gray-400'}`}>{AI_LEVELS[level].label}</button>
+              ))}
+            </div>
+            <button onClick={startAiGame} className="w-full bg-emerald-700 py-4 rounded-xl font-bold text-xs uppercase tracking-widest active:scale-95 transition-transform">人机对弈</button>
+            <div className="flex gap-2">
+              <input type="text" value={engineUrl} onChange={(e) => setEngineUrl(e.target.value)} placeholder={DEFAULT_GTP_URL} aria-label="GTP 桥地址"
+                className="flex-1 min-w-0 bg-black/50 border border-white/10 rounded-xl p-3 text-[10px] font-mono outline-none focus:border-emerald-500/40 text-gray-300" />
+              <button onClick={startEngineGame} disabled={isEngineConnecting} className="bg-black/40 border border-emerald-500/30 px-4 rounded-xl font-bold text-[10px] text-emerald-200 active:scale-95 transition-transform disabled:opacity-30">{isEngineConnecting ? '连接中...' : '对战 GTP 引擎'}</button>
+            </div>
             <div className="relative flex items-center py-1">
                 <div className="flex-grow border-t border-white/5"></div>
                 <span className="flex-shrink mx-3 text-[9px] text-gray-600 font-bold tracking-widest uppercase">在线</span>
                 <div className="flex-grow border-t border-white/5"></div>
             </div>
-            <input type="text" placeholder="好友 ID..." className="w-full bg-black/50 border border-white/10 rounded-xl p-4 text-xs outline-none focus:border-indigo-500/40 text-white" value={remotePeerId} onChange={(e) => setRemotePeerId(e.target.value)} />
-            <button onClick={() => connectToPeer(remotePeerId)} className="w-full bg-indigo-600 py-4 rounded-xl font-bold text-xs uppercase tracking-widest active:scale-95 transition-transform">联机挑战</button>
+            <input type="text" placeholder="房间号或好友 ID..." className="w-full bg-black/50 border border-white/10 rounded-xl p-4 text-xs outline-none focus:border-indigo-500/40 text-white" value={remotePeerId} onChange={(e) => setRemotePeerId(e.target.value)} />
+            <button onClick={() => connectToPeer(Invite.resolve(remotePeerId))} className="w-full bg-indigo-600 py-4 rounded-xl font-bold text-xs uppercase tracking-widest active:scale-95 transition-transform">联机挑战</button>
+            {savedSession && savedGame?.session?.id !== savedSession.sessionId && (
+              <button onClick={() => connectToPeer(savedSession.hostId, savedSession.sessionId)} className="w-full bg-black/40 border border-indigo-500/30 py-3 rounded-xl font-bold text-[10px] text-indigo-200 uppercase tracking-widest active:scale-95 transition-transform">重新加入上一局</button>
+            )}
+          </div>
+          <div className="flex">
+            <button onClick={() => setView('library')} className="flex-1 text-gray-400 font-bold text-[10px] uppercase tracking-widest py-2 active:scale-95">📚 棋谱库</button>
+            <button onClick={() => setView('tsumego')} className="flex-1 text-gray-400 font-bold text-[10px] uppercase tracking-widest py-2 active:scale-95">🧩 死活题</button>
           </div>
         </div>
+        {showSetup && <SetupDialog settings={settings} onChange={setSettings} onClose={() => setShowSetup(false)} />}
       </div>
     );
   }
@@ -343,21 +1640,32 @@ const App: React.FC = () => {
            <h2 className="title-font text-lg text-yellow-500 leading-none">Q弹围棋</h2>
            <div className="flex items-center justify-center gap-1.5 mt-0.5">
              <div className={`w-1 h-1 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`}></div>
-             <span className="text-[8px] font-bold text-gray-600 uppercase">{isConnected ? 'ONLINE' : 'OFFLINE'}</span>
+             <span className="text-[8px] font-bold text-gray-600 uppercase">{isConnected ? 'ONLINE' : isReconnecting ? 'RECONNECTING' : 'OFFLINE'}</span>
+             {myColor === 'spectator' && <span className="text-[8px] font-bold text-yellow-600 uppercase">· 观战中</span>}
            </div>
         </div>
-        <button onClick={() => resetGame()} className="text-gray-400 font-bold text-[10px] uppercase tracking-wider px-3 py-2 bg-white/5 rounded-lg border border-white/5 active:scale-95">重置</button>
+        <div className="flex gap-2">
+          <button onClick={enterEditor} disabled={myColor === 'spectator' || !!editor} className="text-gray-400 font-bold text-[10px] uppercase tracking-wider px-3 py-2 bg-white/5 rounded-lg border border-white/5 active:scale-95 disabled:opacity-30">摆棋</button>
+          <button onClick={() => sgfInputRef.current?.click()} disabled={myColor === 'spectator'} className="text-gray-400 font-bold text-[10px] uppercase tracking-wider px-3 py-2 bg-white/5 rounded-lg border border-white/5 active:scale-95 disabled:opacity-30">导入 SGF</button>
+          <button onClick={exportSgf} className="text-gray-400 font-bold text-[10px] uppercase tracking-wider px-3 py-2 bg-white/5 rounded-lg border border-white/5 active:scale-95">导出 SGF</button>
+          <button onClick={requestRestart} disabled={myColor === 'spectator' || isWaitingRestartResponse} className="text-gray-400 font-bold text-[10px] uppercase tracking-wider px-3 py-2 bg-white/5 rounded-lg border border-white/5 active:scale-95 disabled:opacity-30">{isWaitingRestartResponse ? '等待答复' : '重置'}</button>
+          <input ref={sgfInputRef} type="file" accept=".sgf,application/x-go-sgf" onChange={importSgf} className="hidden" />
+        </div>
       </header>
 
       {/* 手机端紧凑状态条 */}
       <div className="flex-none lg:hidden flex gap-1 px-2 py-1 bg-neutral-900/20 border-b border-white/5 h-12">
           <div className={`flex-1 flex items-center justify-between px-3 rounded-lg border transition-all ${gameState.currentPlayer === 'black' ? 'bg-black border-yellow-500/40' : 'bg-transparent border-transparent opacity-20'}`}>
-            <span className="text-lg">☻</span>
+            <span className="text-lg" title={seats.black?.name}>{seats.black?.avatar ?? '☻'}</span>
+            {renderClock('black', 'text-[10px]')}
+            {renderEstimate('black', 'text-[9px] text-gray-400')}
             <span className="text-[10px] font-black text-yellow-500">提子 {gameState.captured.black}</span>
           </div>
           <div className={`flex-1 flex items-center justify-between px-3 rounded-lg border transition-all ${gameState.currentPlayer === 'white' ? 'bg-white border-yellow-500/40' : 'bg-transparent border-transparent opacity-20'}`}>
             <span className="text-[10px] font-black text-black">提子 {gameState.captured.white}</span>
-            <span className="text-lg text-black">☺</span>
+            {renderEstimate('white', 'text-[9px] text-neutral-500')}
+            {renderClock('white', 'text-[10px]')}
+            <span className="text-lg text-black" title={seats.white?.name}>{seats.white?.avatar ?? '☺'}</span>
           </div>
       </div>
 
@@ -366,33 +1674,118 @@ const App: React.FC = () => {
         <aside className="hidden lg:flex flex-col gap-4 w-48 self-stretch py-4 shrink-0">
            <div className={`p-5 rounded-2xl border-2 transition-all ${gameState.currentPlayer === 'black' ? 'bg-black border-yellow-500 shadow-2xl' : 'bg-neutral-900/40 border-transparent opacity-30'}`}>
               <div className="flex justify-between items-center mb-1">
-                <span className="text-[10px] font-bold uppercase text-gray-500">Black</span>
+                {renderSeat('black', 'Black', 'text-gray-500')}
                 <span className="text-2xl">☻</span>
               </div>
+              {renderRating('black', 'text-gray-500')}
               <p className="text-yellow-500 font-black text-sm">提子: {gameState.captured.black}</p>
+              {renderEstimate('black', 'text-[10px] text-gray-400 block mt-1')}
+              {renderClock('black', 'text-xl mt-2 block')}
            </div>
            <div className={`p-5 rounded-2xl border-2 transition-all ${gameState.currentPlayer === 'white' ? 'bg-white border-yellow-500 shadow-2xl' : 'bg-neutral-900/40 border-transparent opacity-30'}`}>
               <div className="flex justify-between items-center mb-1">
-                <span className="text-black text-[10px] font-bold uppercase opacity-40">White</span>
+                {renderSeat('white', 'White', 'text-black opacity-40')}
                 <span className="text-2xl text-black">☺</span>
               </div>
+              {renderRating('white', 'text-neutral-500')}
               <p className="text-neutral-500 font-black text-sm">提子: {gameState.captured.white}</p>
+              {renderEstimate('white', 'text-[10px] text-neutral-500 block mt-1')}
+              {renderClock('white', 'text-xl mt-2 block text-black')}
            </div>
-           <div className="mt-auto space-y-2">
-             <button onClick={() => processPass()} disabled={gameState.gameOver} className="w-full py-4 rounded-xl font-bold text-xs border border-white/10 hover:bg-white/5 active:scale-95 transition-all uppercase">跳过一手</button>
-             <button onClick={requestUndo} disabled={gameState.gameOver || gameState.history.length === 0} className="w-full py-4 rounded-xl font-bold text-xs bg-indigo-900/20 border border-indigo-500/20 text-indigo-100 uppercase transition-all active:scale-95">悔棋 Undo</button>
-           </div>
+           {gameState.isScoring ? (
+             <div className="mt-auto space-y-2">
+               <p className="text-[10px] font-bold text-gray-500 text-center">点击棋块标记死子</p>
+               <button onClick={() => acceptScore(myColor as PlayerColor)} disabled={myColor === 'spectator' || (isConnected && gameState.scoreAccepted[myColor as PlayerColor])} className="w-full py-4 rounded-xl font-bold text-xs bg-yellow-600 uppercase transition-all active:scale-95 disabled:opacity-40">{isConnected && myColor !== 'spectator' && gameState.scoreAccepted[myColor] ? '等待对方确认' : '确认结果'}</button>
+               <button onClick={() => resumePlay()} disabled={myColor === 'spectator'} className="w-full py-4 rounded-xl font-bold text-xs border border-white/10 hover:bg-white/5 active:scale-95 transition-all uppercase">继续对局</button>
+             </div>
+           ) : (
+             <div className="mt-auto space-y-2">
+               <button onClick={() => processPass()} disabled={gameState.gameOver} aria-keyshortcuts="P" className="w-full py-4 rounded-xl font-bold text-xs border border-white/10 hover:bg-white/5 active:scale-95 transition-all uppercase">跳过一手</button>
+               <button onClick={requestUndo} disabled={gameState.gameOver || !GameFlow.canUndo(gameState)} aria-keyshortcuts="U" className="w-full py-4 rounded-xl font-bold text-xs bg-indigo-900/20 border border-indigo-500/20 text-indigo-100 uppercase transition-all active:scale-95">悔棋 Undo</button>
+               {opponentLeft && !gameState.gameOver ? (
+                 <button onClick={claimForfeit} className="w-full py-4 rounded-xl font-bold text-xs bg-yellow-600 uppercase transition-all active:scale-95">对方离线 · 判胜</button>
+               ) : (
+                 <div className="flex gap-2">
+                   <button onClick={offerDraw} disabled={!canEndGame || isWaitingDrawResponse} className="flex-1 py-3 rounded-xl font-bold text-[10px] border border-white/10 hover:bg-white/5 active:scale-95 transition-all disabled:opacity-40">{isWaitingDrawResponse ? '等待答复' : '提和'}</button>
+                   <button onClick={() => setShowResignConfirm(true)} disabled={!canEndGame} aria-keyshortcuts="R" className="flex-1 py-3 rounded-xl font-bold text-[10px] bg-red-900/20 border border-red-500/20 text-red-100 active:scale-95 transition-all disabled:opacity-40">认输</button>
+                 </div>
+               )}
+             </div>
+           )}
         </aside>
 
         {/* 棋盘主区 */}
         <div className="flex-1 flex flex-col items-center justify-center min-h-0 w-full relative">
            <div className="relative">
-              <GoBoard 
-                board={gameState.board} onMove={onBoardClick} currentPlayer={gameState.currentPlayer}
-                disabled={gameState.gameOver || showUndoRequestModal} cellSize={cellSize}
-                pendingMove={pendingMove} lastMove={gameState.lastMove}
-              />
+              {editor ? (
+                <GoBoard
+                  board={editor.board} onMove={onBoardClick} currentPlayer={editorTool === 'white' ? 'white' : 'black'}
+                  cellSize={cellSize} pendingMove={null} lastMove={null} deadStones={editorInvalid}
+                  showCoordinates={showCoordinates} highlight={highlight}
+                />
+              ) : reviewTree ? (
+                <GoBoard 
+                  board={Review.current(reviewTree).state.board} onMove={onBoardClick} currentPlayer={Review.current(reviewTree).state.currentPlayer}
+                  cellSize={cellSize} pendingMove={null} lastMove={Review.current(reviewTree).state.lastMove}
+                  moveNumbers={showMoveNumbers ? Review.moveNumbers(reviewTree) : undefined}
+                  ownership={ownership} showAtari={overlays.atari} showLiberties={overlays.liberties}
+                  showCoordinates={showCoordinates} highlight={mistakeAhead?.played ?? highlight} describedBy="board-description"
+                  ghost={mistakeAhead?.best}
+                />
+              ) : (
+                <GoBoard 
+                  board={gameState.board} onMove={onBoardClick} currentPlayer={gameState.currentPlayer}
+                  disabled={gameState.gameOver || showUndoRequestModal || isAwaitingSetup} cellSize={cellSize}
+                  pendingMove={pendingMove} lastMove={gameState.lastMove}
+                  deadStones={gameState.deadStones}
+                  moveNumbers={showMoveNumbers ? Notation.moveNumbers(gameState.board, gameState.moves) : undefined}
+                  ownership={ownership} showAtari={overlays.atari && !gameState.isScoring} showLiberties={overlays.liberties}
+                  showCoordinates={showCoordinates} highlight={highlight} describedBy="board-description"
+                />
+              )}
               
+              {setupProposal && (
+                <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm rounded-xl p-4">
+                   <div className="bg-neutral-900 p-6 rounded-2xl border border-yellow-500/50 shadow-2xl flex flex-col items-center gap-4 text-center max-w-[260px]">
+                      <p className="font-bold text-xs text-white uppercase tracking-widest">对手提议的对局设置</p>
+                      <p className="text-[11px] text-gray-300">{describeSettings(setupProposal)}</p>
+                      <p className="text-[11px] font-bold text-yellow-500">你执{setupProposal.hostColor === 'black' ? '白' : '黑'}</p>
+                      <div className="flex gap-2 w-full">
+                         <button onClick={() => respondToSetup(false)} className="flex-1 bg-neutral-800 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">拒绝</button>
+                         <button onClick={() => respondToSetup(true)} className="flex-1 bg-yellow-600 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">接受</button>
+                      </div>
+                   </div>
+                </div>
+              )}
+
+              {inviteProposal && (
+                <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm rounded-xl p-4">
+                   <div className="bg-neutral-900 p-6 rounded-2xl border border-yellow-500/50 shadow-2xl flex flex-col items-center gap-4 text-center max-w-[260px]">
+                      <p className="font-bold text-xs text-white uppercase tracking-widest">对手经邀请链接提议</p>
+                      <p className="text-[11px] text-gray-300">{describeSettings(inviteProposal)}</p>
+                      <p className="text-[11px] font-bold text-yellow-500">{inviteProposal.hostColor === 'nigiri' ? '猜先' : `你执${inviteProposal.hostColor === 'black' ? '黑' : '白'}`}</p>
+                      <div className="flex gap-2 w-full">
+                         <button onClick={() => respondToInvite(false)} className="flex-1 bg-neutral-800 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">用我的设置</button>
+                         <button onClick={() => respondToInvite(true)} className="flex-1 bg-yellow-600 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">接受</button>
+                      </div>
+                   </div>
+                </div>
+              )}
+
+              {isAwaitingSetup && !setupProposal && !inviteProposal && (
+                <div className="absolute inset-0 z-[90] flex items-center justify-center bg-black/50 backdrop-blur-sm rounded-xl pointer-events-none">
+                   <p className="bg-neutral-900 px-5 py-3 rounded-full border border-white/10 font-bold text-[10px] text-gray-300 tracking-widest">等待确认对局设置...</p>
+                </div>
+              )}
+
+              {isAiThinking && (
+                <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-black text-yellow-500 border border-yellow-500/40 px-4 py-1 rounded-full font-bold text-[9px] tracking-widest z-[80] pointer-events-none animate-pulse">电脑思考中...</div>
+              )}
+
+              {gameState.handicapToPlace > 0 && (
+                <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-black text-yellow-500 border border-yellow-500/40 px-4 py-1 rounded-full font-bold text-[9px] tracking-widest z-[80] pointer-events-none">黑方摆放让子 · 剩余 {gameState.handicapToPlace}</div>
+              )}
+
               {showUndoRequestModal && (
                 <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm rounded-xl p-4">
                    <div className="bg-neutral-900 p-6 rounded-2xl border border-indigo-500/50 shadow-2xl flex flex-col items-center gap-4 text-center max-w-[220px]">
@@ -405,12 +1798,77 @@ const App: React.FC = () => {
                 </div>
               )}
 
-              {gameState.gameOver && (
+              {showResignConfirm && resigningColor && (
+                <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm rounded-xl p-4">
+                   <div className="bg-neutral-900 p-6 rounded-2xl border border-red-500/50 shadow-2xl flex flex-col items-center gap-4 text-center max-w-[220px]">
+                      <p className="font-bold text-xs text-white uppercase tracking-widest">{resigningColor === 'black' ? '黑方' : '白方'}确定认输？</p>
+                      <div className="flex gap-2 w-full">
+                         <button onClick={() => setShowResignConfirm(false)} className="flex-1 bg-neutral-800 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">取消</button>
+                         <button onClick={() => resign(resigningColor)} className="flex-1 bg-red-700 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">认输</button>
+                      </div>
+                   </div>
+                </div>
+              )}
+
+              {showRestartRequestModal && (
+                <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm rounded-xl p-4">
+                   <div className="bg-neutral-900 p-6 rounded-2xl border border-indigo-500/50 shadow-2xl flex flex-col items-center gap-4 text-center max-w-[220px]">
+                      <p className="font-bold text-xs text-white uppercase tracking-widest">对手申请重新开局</p>
+                      <div className="flex gap-2 w-full">
+                         <button onClick={() => respondToRestartRequest(false)} className="flex-1 bg-neutral-800 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">拒绝</button>
+                         <button onClick={() => respondToRestartRequest(true)} className="flex-1 bg-indigo-600 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">同意</button>
+                      </div>
+                   </div>
+                </div>
+              )}
+
+              {loadProposal && (
+                <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm rounded-xl p-4">
+                   <div className="bg-neutral-900 p-6 rounded-2xl border border-indigo-500/50 shadow-2xl flex flex-col items-center gap-4 text-center max-w-[240px]">
+                      <p className="font-bold text-xs text-white uppercase tracking-widest">对手请求载入棋谱</p>
+                      <p className="text-[11px] text-gray-300">{loadProposal.gameState.board.length} 路，共 {loadProposal.gameState.moves.length} 手，将替换当前局面</p>
+                      <div className="flex gap-2 w-full">
+                         <button onClick={() => respondToLoadRequest(false)} className="flex-1 bg-neutral-800 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">拒绝</button>
+                         <button onClick={() => respondToLoadRequest(true)} className="flex-1 bg-indigo-600 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">同意</button>
+                      </div>
+                   </div>
+                </div>
+              )}
+
+              {showDrawOfferModal && (
+                <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm rounded-xl p-4">
+                   <div className="bg-neutral-900 p-6 rounded-2xl border border-indigo-500/50 shadow-2xl flex flex-col items-center gap-4 text-center max-w-[220px]">
+                      <p className="font-bold text-xs text-white uppercase tracking-widest">对手提议和棋</p>
+                      <div className="flex gap-2 w-full">
+                         <button onClick={() => respondToDrawOffer(false)} className="flex-1 bg-neutral-800 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">拒绝</button>
+                         <button onClick={() => respondToDrawOffer(true)} className="flex-1 bg-indigo-600 py-3 rounded-lg text-[9px] font-bold uppercase active:scale-95">同意</button>
+                      </div>
+                   </div>
+                </div>
+              )}
+
+              {gameState.result && !reviewTree && (
                 <div className="absolute inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-md rounded-xl animate-fade-in">
                    <div className="bg-neutral-900 p-10 rounded-2xl border border-yellow-500/30 shadow-2xl flex flex-col items-center gap-5 text-center">
                       <h3 className="title-font text-3xl text-yellow-500 uppercase">对局结束</h3>
-                      <p className="font-bold text-white tracking-widest">{gameState.winner === 'draw' ? '平局' : `${gameState.winner === 'black' ? '黑方' : '白方'} 胜出`}</p>
-                      <button onClick={() => resetGame()} className="bg-yellow-600 py-4 px-8 rounded-xl font-bold text-[10px] uppercase tracking-widest active:scale-95">重新开局</button>
+                      <p className="font-bold text-white tracking-widest">{Result.describe(gameState.result, gameState.score?.method ?? gameState.scoringMethod)}</p>
+                      <p className="text-[9px] font-bold text-gray-600 -mt-3">{new Date(gameState.result.date).toLocaleString()}</p>
+                      {gameState.score && gameState.result.reason === 'score' && (
+                        <div className="grid grid-cols-3 gap-x-6 gap-y-1 text-[10px] font-bold text-right">
+                          <span className="text-gray-500 text-left">{gameState.score.method === 'area' ? '数子法' : '数目法'}</span>
+                          <span className="text-yellow-500">黑方</span>
+                          <span className="text-yellow-500">白方</span>
+                          {renderScoreRow('地', 'territory')}
+                          {gameState.score.method === 'area' ? renderScoreRow('棋子', 'stones') : renderScoreRow('提子', 'captures')}
+                          {renderScoreRow('贴目', 'komi')}
+                          {renderScoreRow('合计', 'total')}
+                        </div>
+                      )}
+                      <div className="flex gap-2">
+                        <button onClick={() => startReview()} className="bg-neutral-800 border border-white/10 py-4 px-6 rounded-xl font-bold text-[10px] uppercase tracking-widest active:scale-95">复盘</button>
+                        <button onClick={startAnalysis} className="bg-neutral-800 border border-white/10 py-4 px-6 rounded-xl font-bold text-[10px] uppercase tracking-widest active:scale-95">分析</button>
+                        <button onClick={requestRestart} className="bg-yellow-600 py-4 px-8 rounded-xl font-bold text-[10px] uppercase tracking-widest active:scale-95">重新开局</button>
+                      </div>
                    </div>
                 </div>
               )}
@@ -418,38 +1876,99 @@ const App: React.FC = () => {
               {message && <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-yellow-500 text-black px-5 py-2 rounded-full font-black text-[9px] uppercase shadow-2xl z-[120] animate-bounce pointer-events-none">{message}</div>}
               {floatingEmoji && <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-[130]"><span className="text-7xl animate-emoji-pop">{floatingEmoji.emoji}</span></div>}
            </div>
+           {analysis && (
+             <AnalysisGraph positions={analysis} mistakes={mistakes} current={analysisMove} width={boardWidth} onSelect={jumpToMove} onClose={stopAnalysis} />
+           )}
+           <p id="board-description" className="sr-only">{Narrator.describe(displayState)}</p>
+           <div aria-live="polite" className="sr-only">{announcement}</div>
+           <div className="flex gap-1.5 mt-2">
+             {([['territory', '形势'], ['atari', '叫吃'], ['liberties', '气']] as const).map(([key, label]) => (
+               <button key={key} onClick={() => toggleOverlay(key)} className={toggleChip(overlays[key])}>{label}</button>
+             ))}
+             <button onClick={() => setShowCoordinates(v => !v)} className={toggleChip(showCoordinates)}>坐标</button>
+             <button onClick={() => setShowMoveNumbers(v => !v)} className={toggleChip(showMoveNumbers)}>手数</button>
+           </div>
         </div>
 
         {/* 手机底部控制栏 */}
         <div className="lg:hidden flex-none w-full h-14 flex gap-2 px-1">
-            <button onClick={() => processPass()} disabled={gameState.gameOver} className="flex-1 bg-neutral-800 rounded-xl font-bold text-[10px] uppercase active:scale-95 border border-white/5">跳过一手</button>
-            <button onClick={requestUndo} disabled={gameState.gameOver || gameState.history.length === 0} className="flex-1 bg-indigo-900/30 border border-indigo-500/20 rounded-xl font-bold text-[10px] uppercase active:scale-95">申请悔棋</button>
+          {gameState.isScoring ? (
+            <>
+              <button onClick={() => acceptScore(myColor as PlayerColor)} disabled={myColor === 'spectator' || (isConnected && gameState.scoreAccepted[myColor as PlayerColor])} className="flex-1 bg-yellow-600 rounded-xl font-bold text-[10px] uppercase active:scale-95 disabled:opacity-40">{isConnected && myColor !== 'spectator' && gameState.scoreAccepted[myColor] ? '等待对方确认' : '确认结果'}</button>
+              <button onClick={() => resumePlay()} disabled={myColor === 'spectator'} className="flex-1 bg-neutral-800 rounded-xl font-bold text-[10px] uppercase active:scale-95 border border-white/5">继续对局</button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => processPass()} disabled={gameState.gameOver} aria-keyshortcuts="P" className="flex-1 bg-neutral-800 rounded-xl font-bold text-[10px] uppercase active:scale-95 border border-white/5">跳过一手</button>
+              <button onClick={requestUndo} disabled={gameState.gameOver || !GameFlow.canUndo(gameState)} aria-keyshortcuts="U" className="flex-1 bg-indigo-900/30 border border-indigo-500/20 rounded-xl font-bold text-[10px] uppercase active:scale-95">申请悔棋</button>
+              {opponentLeft && !gameState.gameOver ? (
+                <button onClick={claimForfeit} className="flex-1 bg-yellow-600 rounded-xl font-bold text-[10px] uppercase active:scale-95">判胜</button>
+              ) : (
+                <button onClick={offerDraw} disabled={!canEndGame || isWaitingDrawResponse} className="flex-1 bg-neutral-800 rounded-xl font-bold text-[10px] uppercase active:scale-95 border border-white/5 disabled:opacity-40">{isWaitingDrawResponse ? '等待' : '提和'}</button>
+              )}
+              <button onClick={() => setShowResignConfirm(true)} disabled={!canEndGame} aria-keyshortcuts="R" className="flex-1 bg-red-900/30 border border-red-500/20 rounded-xl font-bold text-[10px] uppercase active:scale-95 disabled:opacity-40">认输</button>
+            </>
+          )}
         </div>
 
         {/* 聊天消息 */}
         <aside className="flex-none lg:w-72 flex flex-col gap-2 h-32 lg:h-full lg:max-h-[600px] overflow-hidden self-stretch shrink-0">
-          <div className="flex-1 bg-neutral-900/30 rounded-xl border border-white/5 flex flex-col overflow-hidden">
-            <div className="flex-1 overflow-y-auto p-2.5 flex flex-col gap-1.5 no-scrollbar text-[11px]">
-              {chatLog.map((m) => (
-                <div key={m.id} className={`flex flex-col ${m.color === 'spectator' ? 'items-center' : m.sender === (myColor === 'black' ? '黑方' : '白方') ? 'items-end' : 'items-start'}`}>
-                  {m.color !== 'spectator' && <span className="text-[7px] text-gray-600 mb-0.5 px-1 font-bold">{m.sender}</span>}
-                  <div className={`px-2.5 py-1.5 rounded-lg ${m.color === 'spectator' ? 'text-gray-600 italic text-[9px]' : m.sender === (myColor === 'black' ? '黑方' : '白方') ? 'bg-indigo-600/50 text-white rounded-tr-none' : 'bg-neutral-800 text-white rounded-tl-none'} ${m.isEmoji ? 'text-2xl bg-transparent p-0' : 'border border-white/5 shadow-sm'}`}>{m.text}</div>
+          {editor ? (
+            <EditorPanel
+              editor={editor} onChange={setEditor} tool={editorTool} onToolChange={setEditorTool}
+              invalidCount={editorInvalid.length} isOnline={isConnected}
+              onPlay={playFromEditor} onExit={() => setEditor(null)}
+            />
+          ) : reviewTree ? (
+            <ReviewPanel
+              tree={reviewTree} onChange={setReviewTree}
+              showMoveNumbers={showMoveNumbers} onToggleMoveNumbers={() => setShowMoveNumbers(v => !v)}
+              onExit={() => setReviewTree(null)}
+              onAnalyze={gameState.gameOver && !analysis ? startAnalysis : undefined}
+            />
+          ) : (
+            <div className="flex-1 bg-neutral-900/30 rounded-xl border border-white/5 flex flex-col overflow-hidden">
+              <div className="flex border-b border-white/5 shrink-0">
+                {([['chat', '聊天'], ['moves', '棋谱']] as const).map(([key, label]) => (
+                  <button key={key} onClick={() => { setSidePanel(key); setHighlight(null); }} className={`flex-1 py-1 text-[9px] font-bold tracking-widest transition-all ${sidePanel === key ? 'text-yellow-500 bg-white/5' : 'text-gray-600'}`}>{label}</button>
+                ))}
+              </div>
+              {sidePanel === 'moves' ? (
+                <MoveList moves={gameState.moves} boardSize={boardSize} onHover={setHighlight} onSelect={gameState.gameOver ? startReview : undefined} />
+              ) : (
+                <>
+                {viewers.length > 0 && (
+                  <div className="flex items-center gap-1.5 px-2.5 py-1.5 border-b border-white/5 overflow-x-auto no-scrollbar shrink-0">
+                    <span className="text-[9px] font-bold text-yellow-600 shrink-0">👁 观战 {viewers.length}</span>
+                    {viewers.map(id => (
+                      <span key={id} className={`text-[8px] font-mono px-1.5 py-0.5 rounded shrink-0 ${id === peerId ? 'bg-yellow-600/30 text-yellow-400' : 'bg-white/5 text-gray-500'}`}>{id.slice(0, 6)}</span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex-1 overflow-y-auto p-2.5 flex flex-col gap-1.5 no-scrollbar text-[11px]">
+                  {chatLog.map((m) => (
+                    <div key={m.id} className={`flex flex-col ${m.color === 'spectator' ? 'items-center' : isMine(m) ? 'items-end' : 'items-start'}`}>
+                      {m.color !== 'spectator' && <span className="text-[7px] text-gray-600 mb-0.5 px-1 font-bold">{m.sender}</span>}
+                      <div className={`px-2.5 py-1.5 rounded-lg ${m.color === 'spectator' ? 'text-gray-600 italic text-[9px]' : isMine(m) ? 'bg-indigo-600/50 text-white rounded-tr-none' : 'bg-neutral-800 text-white rounded-tl-none'} ${m.isEmoji ? 'text-2xl bg-transparent p-0' : 'border border-white/5 shadow-sm'}`}>{m.isEmoji ? m.text : renderChatText(m.text)}</div>
+                    </div>
+                  ))}
+                  <div ref={chatEndRef} />
                 </div>
-              ))}
-              <div ref={chatEndRef} />
-            </div>
             
-            <div className="p-1.5 bg-black/20 flex gap-2 overflow-x-auto no-scrollbar shrink-0 border-t border-white/5">
-              {EMOJIS.map(e => (
-                <button key={e} onClick={() => sendChat(e, true)} disabled={myEmojiCount >= 3} className={`text-lg px-0.5 transition-all ${myEmojiCount >= 3 ? 'grayscale opacity-5 pointer-events-none' : 'hover:scale-125'}`}>{e}</button>
-              ))}
-            </div>
+                <div className="p-1.5 bg-black/20 flex gap-2 overflow-x-auto no-scrollbar shrink-0 border-t border-white/5">
+                  {EMOJIS.map(e => (
+                    <button key={e} onClick={() => sendChat(e, true)} disabled={myEmojiCount >= 3 || myColor === 'spectator'} className={`text-lg px-0.5 transition-all ${myEmojiCount >= 3 || myColor === 'spectator' ? 'grayscale opacity-5 pointer-events-none' : 'hover:scale-125'}`}>{e}</button>
+                  ))}
+                </div>
 
-            <form onSubmit={(e) => { e.preventDefault(); sendChat(inputText); }} className="p-2 bg-black/40 flex gap-2 shrink-0">
-              <input type="text" value={inputText} onChange={(e) => setInputText(e.target.value)} placeholder="聊天..." className="flex-1 bg-white/5 border border-white/5 rounded-lg text-[10px] outline-none text-white px-3 py-2 placeholder:text-gray-700" />
-              <button type="submit" className="bg-indigo-600 px-3 py-2 rounded-lg text-[8px] font-black uppercase transition-all active:scale-95">发送</button>
-            </form>
-          </div>
+                <form onSubmit={(e) => { e.preventDefault(); sendChat(inputText); }} className="p-2 bg-black/40 flex gap-2 shrink-0">
+                  <input type="text" value={inputText} onChange={(e) => setInputText(e.target.value)} placeholder={myColor === 'spectator' ? '观战中，仅可查看' : '聊天...'} disabled={myColor === 'spectator'} className="flex-1 bg-white/5 border border-white/5 rounded-lg text-[10px] outline-none text-white px-3 py-2 placeholder:text-gray-700" />
+                  <button type="submit" className="bg-indigo-600 px-3 py-2 rounded-lg text-[8px] font-black uppercase transition-all active:scale-95">发送</button>
+                </form>
+                </>
+              )}
+            </div>
+          )}
         </aside>
       </main>
     </div>
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Mistake, PositionEval } from '../logic/Analysis.ts';
+
+interface AnalysisGraphProps {
+  positions: (PositionEval | null)[];  // 下标为手数，未算出的为 null
+  mistakes: Mistake[];
+  current: number | null;              // 当前局面的手数，不在主线上时为 null
+  width: number;
+  onSelect: (moveNumber: number) => void;
+  onClose: () => void;
+}
+
+const HEIGHT = 56;
+// 目差曲线至少按这个幅度缩放，免得小差距被放大成满格
+const MIN_LEAD_SCALE = 10;
+
+const AnalysisGraph: React.FC<AnalysisGraphProps> = ({ positions, mistakes, current, width, onSelect, onClose }) => {
+  const count = positions.length;
+  const done = positions.filter(p => p).length;
+  const x = (n: number) => count > 1 ? n / (count - 1) * width : width / 2;
+  const leadScale = Math.max(MIN_LEAD_SCALE, ...positions.map(p => p ? Math.abs(p.lead) : 0));
+  const leadY = (lead: number) => HEIGHT / 2 - lead / leadScale * (HEIGHT / 2 - 2);
+  const rateY = (rate: number) => (1 - rate) * HEIGHT;
+
+  const points = positions.flatMap((p, n) => p ? [{ n, p }] : []);
+  const rateLine = points.map(({ n, p }) => `${x(n)},${rateY(p.winRate)}`).join(' ');
+  const leadArea = points.length > 1
+    ? `M ${x(points[0].n)},${HEIGHT / 2} ${points.map(({ n, p }) => `L ${x(n)},${leadY(p.lead)}`).join(' ')} L ${x(points[points.length - 1].n)},${HEIGHT / 2} Z`
+    : '';
+
+  const shown = current !== null ? positions[current] : null;
+
+  const onClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const n = Math.round((e.clientX - rect.left) / rect.width * (count - 1));
+    onSelect(Math.max(0, Math.min(count - 1, n)));
+  };
+
+  return (
+    <div className="flex flex-col gap-1 mt-2" style={{ width }}>
+      <div className="flex items-center justify-between text-[9px] font-bold">
+        <span className="text-gray-500">
+          形势分析
+          {shown && <span className="text-gray-300 ml-2 tabular-nums">黑胜率 {Math.round(shown.winRate * 100)}% · {shown.lead >= 0 ? '黑' : '白'}领先 {Math.abs(shown.lead).toFixed(1)}</span>}
+        </span>
+        <span className="flex items-center gap-2">
+          {done < count && <span className="text-yellow-600 animate-pulse">分析中 {done}/{count}</span>}
+          <button onClick={onClose} aria-label="关闭分析" className="text-gray-500 hover:text-gray-300 px-1">✕</button>
+        </span>
+      </div>
+      <svg width={width} height={HEIGHT} onClick={onClick} role="img" aria-label={`胜率曲线，共 ${count - 1} 手，点击跳到对应的一手`}
+        className="bg-black/40 rounded-md border border-white/5 cursor-pointer">
+        <line x1={0} y1={HEIGHT / 2} x2={width} y2={HEIGHT / 2} stroke="rgba(255,255,255,0.15)" strokeDasharray="3 3" />
+        {leadArea && <path d={leadArea} fill="rgba(56,189,248,0.18)" />}
+        {rateLine && <polyline points={rateLine} fill="none" stroke="#eab308" strokeWidth={1.5} />}
+        {mistakes.map(m => positions[m.moveNumber] && (
+          <circle key={m.moveNumber} cx={x(m.moveNumber)} cy={rateY(positions[m.moveNumber]!.winRate)} r={3} fill="#ef4444" />
+        ))}
+        {current !== null && <line x1={x(current)} y1={0} x2={x(current)} y2={HEIGHT} stroke="rgba(255,255,255,0.6)" />}
+      </svg>
+      {mistakes.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {/* 跳到失着之前的局面，棋盘上以虚影标出首选点 */}
+          {[...mistakes].sort((a, b) => a.moveNumber - b.moveNumber).map(m => (
+            <button key={m.moveNumber} onClick={() => onSelect(m.moveNumber - 1)}
+              className={`px-2 py-0.5 rounded-full text-[9px] font-bold border active:scale-95 ${current === m.moveNumber - 1 ? 'bg-red-900/40 border-red-500/60 text-red-200' : 'bg-black/40 border-red-500/20 text-red-300'}`}>
+              第 {m.moveNumber} 手 {m.player === 'black' ? '黑' : '白'} −{m.loss.toFixed(1)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisGraph;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { PlayerColor } from '../types.ts';
+import { Editor, EditorState, EditorTool } from '../logic/Editor.ts';
+
+interface EditorPanelProps {
+  editor: EditorState;
+  onChange: (editor: EditorState) => void;
+  tool: EditorTool;
+  onToolChange: (tool: EditorTool) => void;
+  invalidCount: number;
+  isOnline: boolean;
+  onPlay: () => void;    // 本地从此局面开始，联机时请对方载入
+  onExit: () => void;
+}
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'black', label: '● 黑子' },
+  { tool: 'white', label: '○ 白子' },
+  { tool: 'erase', label: '✕ 擦除' },
+];
+
+const EditorPanel: React.FC<EditorPanelProps> = ({ editor, onChange, tool, onToolChange, invalidCount, isOnline, onPlay, onExit }) => {
+  const [sgfText, setSgfText] = useState('');
+  const [error, setError] = useState('');
+
+  const option = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-[10px] font-bold border transition-all active:scale-95 ${active ? 'bg-yellow-600 border-yellow-500' : 'bg-black/40 border-white/5 text-gray-400'}`;
+
+  const setCaptured = (color: PlayerColor, value: string) => {
+    const n = Math.max(0, Math.floor(Number(value) || 0));
+    onChange({ ...editor, captured: { ...editor.captured, [color]: n } });
+  };
+
+  const loadSgf = () => {
+    try {
+      onChange(Editor.fromSgf(sgfText));
+      setSgfText('');
+      setError('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex-1 bg-neutral-900/30 rounded-xl border border-white/5 flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/5">
+        <span className="text-[10px] font-bold text-yellow-500 uppercase tracking-widest">摆棋</span>
+        <button onClick={onExit} className="text-[9px] font-bold text-gray-400 px-2 py-1 bg-white/5 rounded-md active:scale-95">退出摆棋</button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-2.5 no-scrollbar flex flex-col gap-3">
+        <div className="flex gap-1.5">
+          {TOOLS.map(t => <button key={t.tool} onClick={() => onToolChange(t.tool)} className={option(tool === t.tool)}>{t.label}</button>)}
+        </div>
+        <div className="space-y-1">
+          <span className="text-[9px] font-bold text-gray-500 px-1">轮到</span>
+          <div className="flex gap-1.5">
+            {(['black', 'white'] as PlayerColor[]).map(c => (
+              <button key={c} onClick={() => onChange({ ...editor, player: c })} className={option(editor.player === c)}>{c === 'black' ? '黑方' : '白方'}</button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <span className="text-[9px] font-bold text-gray-500 px-1">提子</span>
+          <div className="flex gap-1.5">
+            {(['black', 'white'] as PlayerColor[]).map(c => (
+              <label key={c} className="flex-1 flex items-center gap-1.5 bg-black/40 border border-white/5 rounded-lg px-2 py-1 text-[10px] text-gray-400">
+                {c === 'black' ? '黑' : '白'}
+                <input type="number" min={0} value={editor.captured[c]} onChange={e => setCaptured(c, e.target.value)} className="w-full bg-transparent outline-none text-white font-mono" />
+              </label>
+            ))}
+          </div>
+        </div>
+        <button onClick={() => onChange(Editor.empty(editor.board.length))} className="py-2 rounded-lg bg-white/5 border border-white/5 text-[10px] font-bold active:scale-95">清空棋盘</button>
+        <div className="space-y-1">
+          <textarea value={sgfText} onChange={e => setSgfText(e.target.value)} placeholder="粘贴 SGF，读取其中的 AB/AW 摆子..." rows={3} className="w-full bg-black/50 border border-white/10 rounded-lg p-2 text-[10px] font-mono outline-none focus:border-yellow-500/40 text-gray-300 resize-none" />
+          <button onClick={loadSgf} disabled={!sgfText.trim()} className="w-full py-2 rounded-lg bg-white/5 border border-white/5 text-[10px] font-bold active:scale-95 disabled:opacity-30">从 SGF 摆子</button>
+          {error && <p className="text-[9px] text-red-400">{error}</p>}
+        </div>
+      </div>
+      <div className="p-2 bg-black/20 border-t border-white/5 flex flex-col gap-1.5 shrink-0">
+        {invalidCount > 0 && <p className="text-[9px] text-red-400 text-center">有 {invalidCount} 颗子没有气，请先拿掉或补气</p>}
+        <button onClick={onPlay} disabled={invalidCount > 0} className="py-3 rounded-lg bg-yellow-600 text-[10px] font-bold active:scale-95 disabled:opacity-30">{isOnline ? '请对手从此局面开始' : '从此局面开始'}</button>
+      </div>
+    </div>
+  );
+};
+
+export default EditorPanel;
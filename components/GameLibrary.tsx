@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { GameStore, SavedGame } from '../logic/GameStore.ts';
+import { Result } from '../logic/Result.ts';
+import { describeSettings } from './SetupDialog.tsx';
+
+interface GameLibraryProps {
+  onOpen: (game: SavedGame) => void;
+  onExport: (game: SavedGame) => void;
+  onClose: () => void;
+}
+
+const GameLibrary: React.FC<GameLibraryProps> = ({ onOpen, onExport, onClose }) => {
+  const [games, setGames] = useState<SavedGame[] | null>(null);
+
+  useEffect(() => {
+    GameStore.list().then(setGames).catch(err => {
+      console.warn('Failed to load library:', err);
+      setGames([]);
+    });
+  }, []);
+
+  const remove = (id: string) => {
+    GameStore.remove(id).catch(err => console.warn('Failed to delete game:', err));
+    setGames(g => g && g.filter(game => game.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-[#080808] flex items-center justify-center p-6 text-white overflow-hidden">
+      <div className="w-full max-w-md max-h-full bg-neutral-900 border border-white/5 rounded-2xl p-6 flex flex-col gap-4 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h3 className="title-font text-2xl text-yellow-500">棋谱库</h3>
+          <button onClick={onClose} className="text-gray-400 font-bold text-[10px] uppercase tracking-wider px-3 py-2 bg-white/5 rounded-lg border border-white/5 active:scale-95">返回</button>
+        </div>
+        <div className="flex-1 overflow-y-auto no-scrollbar flex flex-col gap-2 min-h-0">
+          {games === null && <p className="text-center text-[10px] text-gray-600 py-8">读取中...</p>}
+          {games?.length === 0 && <p className="text-center text-[10px] text-gray-600 py-8">还没有下完的对局</p>}
+          {games?.map(game => (
+            <div key={game.id} className="bg-black/40 border border-white/5 rounded-xl p-3 flex flex-col gap-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-bold text-gray-200 truncate">{game.opponent}</span>
+                <span className="text-[9px] font-mono text-gray-600 shrink-0">{new Date(game.date).toLocaleString()}</span>
+              </div>
+              <div className="flex items-center justify-between gap-2 text-[10px]">
+                <span className="font-bold text-yellow-500">{game.state.result ? Result.describe(game.state.result, game.state.score?.method ?? game.state.scoringMethod) : '未终局'}</span>
+                <span className="text-gray-500 shrink-0">{game.state.moves.length} 手</span>
+              </div>
+              <p className="text-[9px] text-gray-600 truncate">{describeSettings(game.settings)}</p>
+              <div className="flex gap-2">
+                <button onClick={() => onOpen(game)} className="flex-1 py-2 rounded-lg bg-yellow-600 text-[10px] font-bold active:scale-95">复盘</button>
+                <button onClick={() => onExport(game)} className="flex-1 py-2 rounded-lg bg-white/5 border border-white/5 text-[10px] font-bold active:scale-95">导出 SGF</button>
+                <button onClick={() => remove(game.id)} className="py-2 px-3 rounded-lg bg-red-900/20 border border-red-500/20 text-red-200 text-[10px] font-bold active:scale-95">删除</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameLibrary;
@@ -1,6 +1,8 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { BoardState, PlayerColor, Point } from '../types.ts';
-import { BOARD_SIZE } from '../logic/GoRules.ts';
+import { GoRules } from '../logic/GoRules.ts';
+import { Ownership } from '../logic/Influence.ts';
+import { Notation } from '../logic/Notation.ts';
 import Stone from './Stone.tsx';
 
 interface DyingStone extends Point {
@@ -16,16 +18,64 @@ interface GoBoardProps {
   cellSize: number;
   pendingMove: Point | null;
   lastMove: Point | null;
+  deadStones?: Point[];
+  moveNumbers?: Record<string, number>;
+  ownership?: Ownership | null;  // 势力/地域显示
+  showAtari?: boolean;
+  showLiberties?: boolean;       // 鼠标悬停在棋子上时标出整块的气
+  showCoordinates?: boolean;
+  highlight?: Point | null;      // 聊天或棋谱列表中指向的点
+  describedBy?: string;          // 局面文字描述所在元素的 id
+  ghost?: Point | null;          // 分析给出的首选点，以行棋方的虚影显示
 }
 
-const GoBoard: React.FC<GoBoardProps> = ({ board, onMove, currentPlayer, disabled, cellSize, pendingMove, lastMove }) => {
-  const padding = cellSize * 0.8;
-  const boardSizePx = (BOARD_SIZE - 1) * cellSize + padding * 2;
+const GoBoard: React.FC<GoBoardProps> = ({ board, onMove, currentPlayer, disabled, cellSize, pendingMove, lastMove, deadStones = [], moveNumbers, ownership, showAtari, showLiberties, showCoordinates, highlight, describedBy, ghost }) => {
+  const size = board.length;
+  // 显示坐标时留白加宽，免得字压住边线上的棋子
+  const padding = cellSize * (showCoordinates ? 1.3 : 0.8);
+  const boardSizePx = (size - 1) * cellSize + padding * 2;
+  const starPoints = useMemo(() => GoRules.getStarPoints(size), [size]);
+  const stoneRadius = cellSize * 0.49;
+  const isDead = (x: number, y: number) => deadStones.some(s => s.x === x && s.y === y);
   const prevBoardRef = useRef<BoardState>(board);
   const [dyingStones, setDyingStones] = useState<DyingStone[]>([]);
+  const [hover, setHover] = useState<Point | null>(null);
+  // 键盘光标，棋盘获得焦点时才显示
+  const [cursor, setCursor] = useState<Point>(() => ({ x: Math.floor(size / 2), y: Math.floor(size / 2) }));
+  const [focused, setFocused] = useState(false);
+
+  useEffect(() => {
+    setCursor(c => c.x < size && c.y < size ? c : { x: Math.floor(size / 2), y: Math.floor(size / 2) });
+  }, [size]);
+
+  // 只剩一口气的棋块
+  const ataris = useMemo(() => {
+    if (!showAtari) return [];
+    const seen = new Set<string>();
+    const stones: Point[] = [];
+    board.forEach((row, y) => row.forEach((cell, x) => {
+      if (!cell || seen.has(`${x},${y}`)) return;
+      const group = GoRules.getGroup(board, { x, y });
+      group.stones.forEach(s => seen.add(`${s.x},${s.y}`));
+      if (group.liberties.size === 1) stones.push(...group.stones);
+    }));
+    return stones;
+  }, [board, showAtari]);
+
+  const hoverGroup = useMemo(() => {
+    if (!showLiberties || !hover || !board[hover.y]?.[hover.x]) return null;
+    const { liberties } = GoRules.getGroup(board, hover);
+    return [...liberties].map(key => {
+      const [x, y] = key.split(',').map(Number);
+      return { x, y };
+    });
+  }, [board, hover, showLiberties]);
 
   useEffect(() => {
     const prevBoard = prevBoardRef.current;
+    prevBoardRef.current = board;
+    // 切换棋盘尺寸时不做提子动画
+    if (prevBoard.length !== board.length) return;
     const newDying: DyingStone[] = [];
     board.forEach((row, y) => {
       row.forEach((cell, x) => {
@@ -41,23 +91,49 @@ const GoBoard: React.FC<GoBoardProps> = ({ board, onMove, currentPlayer, disable
         setDyingStones(current => current.filter(s => !newDying.find(n => n.id === s.id)));
       }, 600);
     }
-    prevBoardRef.current = board;
   }, [board]);
 
+  const toPoint = (e: React.PointerEvent<SVGSVGElement>): Point | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const gridX = Math.round((e.clientX - rect.left - padding) / cellSize);
+    const gridY = Math.round((e.clientY - rect.top - padding) / cellSize);
+    return gridX >= 0 && gridX < size && gridY >= 0 && gridY < size ? { x: gridX, y: gridY } : null;
+  };
+
   const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
     if (disabled) return;
-    const svg = e.currentTarget;
-    const rect = svg.getBoundingClientRect();
-    const x = e.clientX - rect.left - padding;
-    const y = e.clientY - rect.top - padding;
-    const gridX = Math.round(x / cellSize);
-    const gridY = Math.round(y / cellSize);
-    if (gridX >= 0 && gridX < BOARD_SIZE && gridY >= 0 && gridY < BOARD_SIZE) {
-      onMove({ x: gridX, y: gridY });
+    const p = toPoint(e);
+    if (!p) return;
+    setCursor(p);
+    onMove(p);
+  };
+
+  // 方向键移动光标，回车或空格落子（与点击一样需确认一次）
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const steps: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+    if (steps[e.key]) {
+      const [dx, dy] = steps[e.key];
+      setCursor(c => ({ x: Math.min(size - 1, Math.max(0, c.x + dx)), y: Math.min(size - 1, Math.max(0, c.y + dy)) }));
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      if (!disabled) onMove(cursor);
+    } else {
+      return;
     }
+    // 复盘时方向键另有用途，棋盘有焦点时由光标独占
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const cursorStone = board[cursor.y]?.[cursor.x];
+  const cursorText = `${Notation.point(cursor, size)}，${cursorStone === 'black' ? '黑子' : cursorStone === 'white' ? '白子' : '空'}${isDead(cursor.x, cursor.y) ? '（死子）' : ''}`;
+
+  // 触屏没有悬停，只跟踪鼠标
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!showLiberties || e.pointerType !== 'mouse') return;
+    const p = toPoint(e);
+    setHover(h => h?.x === p?.x && h?.y === p?.y ? h : p);
   };
 
-  const stoneRadius = cellSize * 0.49;
 
   // 渲染所有同色桥接路径（粘稠厚度增强）
   const renderAllBridges = () => {
@@ -65,8 +141,8 @@ const GoBoard: React.FC<GoBoardProps> = ({ board, onMove, currentPlayer, disable
     const colors: PlayerColor[] = ['black', 'white'];
     
     colors.forEach(targetColor => {
-      for (let y = 0; y < BOARD_SIZE; y++) {
-        for (let x = 0; x < BOARD_SIZE; x++) {
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
           if (board[y][x] !== targetColor) continue;
           
           const directions = [
@@ -76,7 +152,7 @@ const GoBoard: React.FC<GoBoardProps> = ({ board, onMove, currentPlayer, disable
 
           directions.forEach(({ dx, dy }) => {
             const nx = x + dx, ny = y + dy;
-            if (nx >= 0 && nx < BOARD_SIZE && ny >= 0 && ny < BOARD_SIZE && board[ny][nx] === targetColor) {
+            if (nx >= 0 && nx < size && ny >= 0 && ny < size && board[ny][nx] === targetColor) {
               bridges.push(
                 <line
                   key={`bridge-${targetColor}-${x}-${y}-${nx}-${ny}`}
@@ -95,8 +171,13 @@ const GoBoard: React.FC<GoBoardProps> = ({ board, onMove, currentPlayer, disable
   };
 
   return (
-    <div className="relative p-1 bg-[#cc9c4a] rounded-lg shadow-2xl border-2 border-[#8b6b23]/50 touch-none">
-      <svg width={boardSizePx} height={boardSizePx} viewBox={`0 0 ${boardSizePx} ${boardSizePx}`} onPointerDown={handlePointerDown} className="cursor-crosshair overflow-visible">
+    <div
+      tabIndex={0} role="application" aria-roledescription="棋盘" aria-label={`${size} 路棋盘，方向键移动，回车落子`} aria-describedby={describedBy}
+      onKeyDown={handleKeyDown} onFocus={e => setFocused(e.currentTarget.matches(':focus-visible'))} onBlur={() => setFocused(false)}
+      className="relative p-1 bg-[#cc9c4a] rounded-lg shadow-2xl border-2 border-[#8b6b23]/50 touch-none outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+    >
+      {focused && <div aria-live="polite" className="sr-only">{cursorText}</div>}
+      <svg width={boardSizePx} height={boardSizePx} viewBox={`0 0 ${boardSizePx} ${boardSizePx}`} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerLeave={() => setHover(null)} className="cursor-crosshair overflow-visible">
         <defs>
           {/* 混合粘稠滤镜：作用于所有颜色，使交界处产生融合 */}
           <filter id="gooey-master" x="-50%" y="-50%" width="200%" height="200%">
@@ -108,40 +189,101 @@ const GoBoard: React.FC<GoBoardProps> = ({ board, onMove, currentPlayer, disable
 
         {/* 1. 底层：棋盘线 */}
         <g transform={`translate(${padding}, ${padding})`}>
-          {Array.from({ length: BOARD_SIZE }).map((_, i) => (
+          {Array.from({ length: size }).map((_, i) => (
             <React.Fragment key={i}>
-              <line x1={0} y1={i * cellSize} x2={(BOARD_SIZE - 1) * cellSize} y2={i * cellSize} stroke="#3d2b1c" strokeWidth={cellSize * 0.03} opacity="0.25" />
-              <line x1={i * cellSize} y1={0} x2={i * cellSize} y2={(BOARD_SIZE - 1) * cellSize} stroke="#3d2b1c" strokeWidth={cellSize * 0.03} opacity="0.25" />
+              <line x1={0} y1={i * cellSize} x2={(size - 1) * cellSize} y2={i * cellSize} stroke="#3d2b1c" strokeWidth={cellSize * 0.03} opacity="0.25" />
+              <line x1={i * cellSize} y1={0} x2={i * cellSize} y2={(size - 1) * cellSize} stroke="#3d2b1c" strokeWidth={cellSize * 0.03} opacity="0.25" />
             </React.Fragment>
           ))}
-          {[3, 9, 15].map(y => [3, 9, 15].map(x => (
+          {starPoints.map(({ x, y }) => (
             <circle key={`star-${x}-${y}`} cx={x * cellSize} cy={y * cellSize} r={cellSize * 0.08} fill="#3d2b1c" opacity="0.4" />
-          )))}
+          ))}
+          {/* 坐标：四边都标，字放在留白处 */}
+          {showCoordinates && Array.from({ length: size }).map((_, i) => {
+            const far = (size - 1) * cellSize + padding * 0.6;
+            const near = -padding * 0.6;
+            const label = { fontSize: Math.max(7, cellSize * 0.3), fill: '#3d2b1c', fontWeight: 'bold', textAnchor: 'middle' as const, dy: '0.35em', className: 'pointer-events-none select-none' };
+            return (
+              <React.Fragment key={`coord-${i}`}>
+                <text {...label} x={i * cellSize} y={near}>{Notation.column(i)}</text>
+                <text {...label} x={i * cellSize} y={far}>{Notation.column(i)}</text>
+                <text {...label} x={near} y={i * cellSize}>{Notation.row(i, size)}</text>
+                <text {...label} x={far} y={i * cellSize}>{Notation.row(i, size)}</text>
+              </React.Fragment>
+            );
+          })}
         </g>
 
         {/* 2. 粘稠层：黑白棋子本体 + 桥接线，共用滤镜实现颜色混合 */}
         <g transform={`translate(${padding}, ${padding})`} filter="url(#gooey-master)">
           {renderAllBridges()}
           {board.map((row, y) => row.map((cell, x) => (
-            cell && <Stone key={`body-${x}-${y}`} color={cell} cx={x * cellSize} cy={y * cellSize} radius={stoneRadius} part="body" />
+            cell && <Stone key={`body-${x}-${y}`} color={cell} cx={x * cellSize} cy={y * cellSize} radius={stoneRadius} isGhost={isDead(x, y)} part="body" />
           )))}
           {pendingMove && (
             <Stone color={currentPlayer} cx={pendingMove.x * cellSize} cy={pendingMove.y * cellSize} radius={stoneRadius} isGhost={true} part="body" />
           )}
+          {ghost && !board[ghost.y][ghost.x] && (
+            <Stone color={currentPlayer} cx={ghost.x * cellSize} cy={ghost.y * cellSize} radius={stoneRadius} isGhost={true} part="body" />
+          )}
         </g>
 
         {/* 3. 表情层：置于滤镜层之上，保持清晰不模糊 */}
         <g transform={`translate(${padding}, ${padding})`}>
-          {board.map((row, y) => row.map((cell, x) => (
-            cell && <Stone key={`face-${x}-${y}`} color={cell} cx={x * cellSize} cy={y * cellSize} radius={stoneRadius} part="face" />
-          )))}
+          {board.map((row, y) => row.map((cell, x) => {
+            if (!cell) return null;
+            const number = moveNumbers?.[`${x},${y}`];
+            // 显示手数时以数字代替表情
+            return number !== undefined ? (
+              <text key={`num-${x}-${y}`} x={x * cellSize} y={y * cellSize} dy="0.35em" textAnchor="middle" fontSize={cellSize * (number >= 100 ? 0.36 : 0.46)} fontWeight="bold" fill={cell === 'black' ? '#fff' : '#111'} className="pointer-events-none">{number}</text>
+            ) : (
+              <Stone key={`face-${x}-${y}`} color={cell} cx={x * cellSize} cy={y * cellSize} radius={stoneRadius} isGhost={isDead(x, y)} part="face" />
+            );
+          }))}
           {pendingMove && (
             <Stone color={currentPlayer} cx={pendingMove.x * cellSize} cy={pendingMove.y * cellSize} radius={stoneRadius} isGhost={true} part="face" />
           )}
+          {ghost && !board[ghost.y][ghost.x] && (
+            <Stone color={currentPlayer} cx={ghost.x * cellSize} cy={ghost.y * cellSize} radius={stoneRadius} isGhost={true} part="face" />
+          )}
         </g>
 
         {/* 4. 指示与特效层 */}
         <g transform={`translate(${padding}, ${padding})`}>
+          {/* 地域：空点与被判死的棋子上标出归属方 */}
+          {ownership && board.map((row, y) => row.map((cell, x) => {
+            const v = ownership[y]?.[x] ?? 0;
+            if (Math.abs(v) < 0.15 || (cell && (cell === 'black') === (v > 0))) return null;
+            const half = cellSize * 0.22;
+            return <rect key={`own-${x}-${y}`} x={x * cellSize - half} y={y * cellSize - half} width={half * 2} height={half * 2} fill={v > 0 ? '#111' : '#fff'} opacity={Math.abs(v) * 0.75} className="pointer-events-none" />;
+          }))}
+          {ataris.map(s => (
+            <circle key={`atari-${s.x}-${s.y}`} cx={s.x * cellSize} cy={s.y * cellSize} r={stoneRadius * 1.05} fill="none" stroke="#ef4444" strokeWidth={cellSize * 0.07} strokeDasharray={`${cellSize * 0.15} ${cellSize * 0.1}`} className="pointer-events-none" />
+          ))}
+          {hoverGroup && hover && (
+            <g className="pointer-events-none">
+              {hoverGroup.map(l => (
+                <circle key={`lib-${l.x}-${l.y}`} cx={l.x * cellSize} cy={l.y * cellSize} r={cellSize * 0.14} fill="#22c55e" opacity="0.85" />
+              ))}
+              <g transform={`translate(${hover.x * cellSize + stoneRadius * 0.8}, ${hover.y * cellSize - stoneRadius * 0.8})`}>
+                <circle r={cellSize * 0.28} fill="#166534" stroke="#22c55e" strokeWidth="1.5" />
+                <text dy="0.35em" textAnchor="middle" fontSize={cellSize * 0.32} fontWeight="bold" fill="#fff">{hoverGroup.length}</text>
+              </g>
+            </g>
+          )}
+          {/* 死子标记 */}
+          {deadStones.map(s => (
+            <g key={`dead-${s.x}-${s.y}`} stroke="#ef4444" strokeWidth={cellSize * 0.08} strokeLinecap="round" className="pointer-events-none">
+              <line x1={s.x * cellSize - stoneRadius * 0.5} y1={s.y * cellSize - stoneRadius * 0.5} x2={s.x * cellSize + stoneRadius * 0.5} y2={s.y * cellSize + stoneRadius * 0.5} />
+              <line x1={s.x * cellSize + stoneRadius * 0.5} y1={s.y * cellSize - stoneRadius * 0.5} x2={s.x * cellSize - stoneRadius * 0.5} y2={s.y * cellSize + stoneRadius * 0.5} />
+            </g>
+          ))}
+          {focused && (
+            <rect x={cursor.x * cellSize - cellSize / 2} y={cursor.y * cellSize - cellSize / 2} width={cellSize} height={cellSize} rx={cellSize * 0.15} fill="none" stroke="#38bdf8" strokeWidth="2" className="pointer-events-none" />
+          )}
+          {highlight && (
+            <circle cx={highlight.x * cellSize} cy={highlight.y * cellSize} r={stoneRadius * 0.7} fill="#38bdf8" fillOpacity="0.35" stroke="#38bdf8" strokeWidth="2.5" className="pointer-events-none animate-pulse" />
+          )}
           {lastMove && (
             <circle cx={lastMove.x * cellSize} cy={lastMove.y * cellSize} r={stoneRadius * 1.25} fill="none" stroke="#eab308" strokeWidth="2.5" className="animate-indicator" />
           )}
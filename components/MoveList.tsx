@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { GameMove, Point } from '../types.ts';
+import { Notation } from '../logic/Notation.ts';
+
+interface MoveListProps {
+  moves: GameMove[];
+  boardSize: number;
+  onHover: (p: Point | null) => void;
+  onSelect?: (moveNumber: number) => void;  // 终局后点选某手进入复盘
+}
+
+const MoveList: React.FC<MoveListProps> = ({ moves, boardSize, onHover, onSelect }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [moves.length]);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-2.5 no-scrollbar">
+      {moves.length === 0 && <p className="text-center text-[10px] text-gray-600 py-4">尚未落子</p>}
+      <div className="grid grid-cols-3 lg:grid-cols-2 gap-1">
+        {moves.map((m, i) => (
+          <button
+            key={i}
+            onMouseEnter={() => onHover(m.point)}
+            onMouseLeave={() => onHover(null)}
+            onClick={() => onSelect?.(i + 1)}
+            disabled={!onSelect}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-white/5 border border-white/5 text-[10px] font-mono text-left enabled:hover:bg-white/10 enabled:active:scale-95"
+          >
+            <span className="text-gray-600 w-6 text-right shrink-0">{i + 1}</span>
+            <span className={`w-2 h-2 rounded-full shrink-0 ${m.player === 'black' ? 'bg-black border border-white/30' : 'bg-white'}`} />
+            <span className={m.point ? 'text-gray-200 font-bold' : 'text-yellow-600'}>{Notation.move(m, boardSize)}</span>
+          </button>
+        ))}
+      </div>
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default MoveList;
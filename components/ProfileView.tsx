@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { AVATARS, MAX_NAME_LENGTH, PlayerRecord, Profile, Tally } from '../logic/Profile.ts';
+
+interface ProfileViewProps {
+  record: PlayerRecord;
+  onChange: (changes: { name?: string; avatar?: string }) => void;
+  onClose: () => void;
+}
+
+const RECENT_MATCHES = 20;
+
+const OUTCOME_LABELS = { win: '胜', loss: '负', draw: '和' };
+
+const winRate = (t: Tally) => {
+  const games = t.wins + t.losses + t.draws;
+  return games ? `${Math.round((t.wins + t.draws / 2) / games * 100)}%` : '—';
+};
+
+const TallyRow: React.FC<{ label: React.ReactNode; tally: Tally }> = ({ label, tally }) => (
+  <div className="flex items-center justify-between gap-2 text-[10px]">
+    <span className="text-gray-300 truncate">{label}</span>
+    <span className="font-mono text-gray-500 shrink-0 tabular-nums">
+      {tally.wins} 胜 {tally.losses} 负{tally.draws ? ` ${tally.draws} 和` : ''} · {winRate(tally)}
+    </span>
+  </div>
+);
+
+const ProfileView: React.FC<ProfileViewProps> = ({ record, onChange, onClose }) => {
+  const { profile, matches } = record;
+  const [name, setName] = useState(profile.name);
+  const stats = useMemo(() => Profile.stats(matches), [matches]);
+
+  return (
+    <div className="fixed inset-0 bg-[#080808] flex items-center justify-center p-6 text-white overflow-hidden">
+      <div className="w-full max-w-md max-h-full bg-neutral-900 border border-white/5 rounded-2xl p-6 flex flex-col gap-4 shadow-2xl overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <h3 className="title-font text-2xl text-yellow-500">棋手资料</h3>
+          <button onClick={onClose} className="text-gray-400 font-bold text-[10px] uppercase tracking-wider px-3 py-2 bg-white/5 rounded-lg border border-white/5 active:scale-95">返回</button>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-5xl">{profile.avatar}</span>
+          <div className="flex-1 min-w-0 flex flex-col gap-1">
+            <input type="text" value={name} maxLength={MAX_NAME_LENGTH} aria-label="昵称"
+              onChange={(e) => setName(e.target.value)}
+              onBlur={() => { onChange({ name }); setName(n => n.trim() || profile.name); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className="w-full bg-black/50 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:border-yellow-500/40 text-white" />
+            <span className="text-[10px] font-mono text-gray-500 px-1">
+              等级分 <span className="text-yellow-500 font-bold text-xs">{Math.round(profile.rating)}</span> ± {Math.round(profile.rd * 2)}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="头像">
+          {AVATARS.map(a => (
+            <button key={a} onClick={() => onChange({ avatar: a })} role="radio" aria-checked={a === profile.avatar}
+              className={`w-9 h-9 rounded-lg text-xl border active:scale-95 ${a === profile.avatar ? 'bg-yellow-600/30 border-yellow-500/60' : 'bg-black/40 border-white/5'}`}>{a}</button>
+          ))}
+        </div>
+
+        {matches.length === 0 ? (
+          <p className="text-center text-[10px] text-gray-600 py-6">与电脑、引擎或联机对手下完一盘后开始计分</p>
+        ) : (
+          <>
+            <div className="bg-black/40 border border-white/5 rounded-xl p-3 flex flex-col gap-1">
+              <span className="text-[10px] font-bold text-gray-500 uppercase">战绩</span>
+              <TallyRow label="全部" tally={stats.total} />
+              <TallyRow label="执黑" tally={stats.byColor.black} />
+              <TallyRow label="执白" tally={stats.byColor.white} />
+            </div>
+            <div className="bg-black/40 border border-white/5 rounded-xl p-3 flex flex-col gap-1">
+              <span className="text-[10px] font-bold text-gray-500 uppercase">按棋盘</span>
+              {stats.bySize.map(({ size, tally }) => <TallyRow key={size} label={`${size} 路`} tally={tally} />)}
+            </div>
+            <div className="bg-black/40 border border-white/5 rounded-xl p-3 flex flex-col gap-1">
+              <span className="text-[10px] font-bold text-gray-500 uppercase">按对手</span>
+              {stats.byOpponent.map(({ opponent, tally }) => <TallyRow key={opponent.id} label={`${opponent.avatar} ${opponent.name}`} tally={tally} />)}
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] font-bold text-gray-500 uppercase px-1">最近对局</span>
+              {matches.slice(0, RECENT_MATCHES).map(m => {
+                const delta = Math.round(m.ratingAfter - m.ratingBefore);
+                return (
+                  <div key={m.gameId} className="flex items-center justify-between gap-2 bg-black/40 border border-white/5 rounded-lg px-3 py-2 text-[10px]">
+                    <span className={`font-bold shrink-0 ${m.outcome === 'win' ? 'text-green-400' : m.outcome === 'loss' ? 'text-red-400' : 'text-gray-400'}`}>{OUTCOME_LABELS[m.outcome]}</span>
+                    <span className="flex-1 min-w-0 truncate text-gray-300">{m.opponent.avatar} {m.opponent.name}</span>
+                    <span className="text-gray-600 shrink-0">{m.boardSize} 路 · 执{m.color === 'black' ? '黑' : '白'}</span>
+                    <span className={`font-mono shrink-0 tabular-nums ${delta >= 0 ? 'text-green-500' : 'text-red-500'}`}>{delta >= 0 ? '+' : ''}{delta}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileView;
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+import { Review, ReviewNode, ReviewTree } from '../logic/Review.ts';
+
+interface ReviewPanelProps {
+  tree: ReviewTree;
+  onChange: (tree: ReviewTree) => void;
+  showMoveNumbers: boolean;
+  onToggleMoveNumbers: () => void;
+  onExit: () => void;
+  onAnalyze?: () => void;  // 终局且尚未分析时提供
+}
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ tree, onChange, showMoveNumbers, onToggleMoveNumbers, onExit, onAnalyze }) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+  const current = Review.current(tree);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [tree.currentId]);
+
+  const renderChip = (node: ReviewNode) => {
+    const isCurrent = node.id === tree.currentId;
+    const isBlack = node.move?.player === 'black';
+    return (
+      <button
+        key={node.id}
+        ref={isCurrent ? currentRef : undefined}
+        onClick={() => onChange(Review.goTo(tree, node.id))}
+        className={`min-w-[22px] h-[22px] px-1 rounded-full text-[8px] font-black border transition-all ${
+          node.move === null ? 'bg-yellow-600/20 text-yellow-500 border-yellow-500/30' : isBlack ? 'bg-black text-white border-white/20' : 'bg-white text-black border-black/20'
+        } ${isCurrent ? 'ring-2 ring-yellow-500 scale-110' : 'opacity-70 hover:opacity-100'}`}
+      >
+        {node.move === null ? '开局' : node.move.point === null ? 'P' : node.moveNumber}
+      </button>
+    );
+  };
+
+  // 主线横向排列，变化分支缩进列在其后
+  const renderLine = (id: number, depth: number): React.ReactNode => {
+    const chips: React.ReactNode[] = [];
+    const branches: React.ReactNode[] = [];
+    let node = tree.nodes[id];
+    while (true) {
+      chips.push(renderChip(node));
+      node.children.slice(1).forEach(childId => branches.push(renderLine(childId, depth + 1)));
+      if (node.children.length === 0) break;
+      node = tree.nodes[node.children[0]];
+    }
+    return (
+      <div key={`line-${id}`} className={depth > 0 ? 'ml-2 pl-2 border-l border-yellow-500/20 mt-1' : ''}>
+        <div className="flex flex-wrap gap-1">{chips}</div>
+        {branches}
+      </div>
+    );
+  };
+
+  const navButton = 'flex-1 py-2 rounded-lg bg-white/5 border border-white/5 text-xs font-bold active:scale-95 disabled:opacity-20';
+
+  return (
+    <div className="flex-1 bg-neutral-900/30 rounded-xl border border-white/5 flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/5">
+        <span className="text-[10px] font-bold text-yellow-500 uppercase tracking-widest">复盘 · 第 {current.moveNumber} 手</span>
+        <div className="flex gap-1.5">
+          {onAnalyze && <button onClick={onAnalyze} className="text-[9px] font-bold text-gray-400 px-2 py-1 bg-white/5 rounded-md active:scale-95">分析</button>}
+          <button onClick={onExit} className="text-[9px] font-bold text-gray-400 px-2 py-1 bg-white/5 rounded-md active:scale-95">退出复盘</button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-2.5 no-scrollbar">{renderLine(0, 0)}</div>
+      <div className="p-2 bg-black/20 border-t border-white/5 flex gap-1.5 shrink-0">
+        <button onClick={() => onChange(Review.first(tree))} disabled={current.parentId === null} className={navButton}>⏮</button>
+        <button onClick={() => onChange(Review.prev(tree))} disabled={current.parentId === null} className={navButton}>◀</button>
+        <button onClick={() => onChange(Review.next(tree))} disabled={current.children.length === 0} className={navButton}>▶</button>
+        <button onClick={() => onChange(Review.last(tree))} disabled={current.children.length === 0} className={navButton}>⏭</button>
+        <button onClick={onToggleMoveNumbers} className={`${navButton} ${showMoveNumbers ? 'bg-yellow-600 border-yellow-500' : ''}`}>手数</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { GameSettings, HandicapMode, KoRule, PlayerColor, RuleSet } from '../types.ts';
+import { BOARD_SIZES, RULE_SETS } from '../logic/GoRules.ts';
+import { KOMI_PRESETS } from '../logic/Scoring.ts';
+import { Clock, TIME_PRESETS } from '../logic/Clock.ts';
+
+interface SetupDialogProps {
+  settings: GameSettings;
+  onChange: (settings: GameSettings) => void;
+  onClose: () => void;
+}
+
+const HANDICAPS = [0, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const KO_LABELS: Record<KoRule, string> = {
+  simple: '单劫',
+  positional: '位置超级劫',
+  situational: '局面超级劫',
+};
+
+export const describeSettings = (s: GameSettings): string => {
+  const parts = [`${s.boardSize} 路`, `${RULE_SETS[s.ruleSet].label}规则`, `贴 ${s.komi}`];
+  if (s.handicap > 0) parts.push(`让 ${s.handicap} 子${s.handicapMode === 'free' ? '(自由)' : ''}`);
+  if (s.timeControl.type !== 'none') parts.push(Clock.describe(s.timeControl));
+  return parts.join(' · ');
+};
+
+const SetupDialog: React.FC<SetupDialogProps> = ({ settings, onChange, onClose }) => {
+  const update = (patch: Partial<GameSettings>) => onChange({ ...settings, ...patch });
+
+  const option = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-[10px] font-bold border transition-all ${active ? 'bg-yellow-600 border-yellow-500' : 'bg-black/40 border-white/5 text-gray-400'}`;
+
+  const setHandicap = (handicap: number) => {
+    // 让子棋通常只贴半目
+    update({ handicap, komi: handicap > 0 ? 0.5 : settings.handicap > 0 ? RULE_SETS[settings.ruleSet].komi : settings.komi });
+  };
+
+  // 规则决定劫争、自杀与数子方式，并带出该规则的标准贴目
+  const setRuleSet = (ruleSet: RuleSet) => {
+    const rules = RULE_SETS[ruleSet];
+    update({ ruleSet, scoringMethod: rules.scoringMethod, komi: settings.handicap > 0 ? 0.5 : rules.komi });
+  };
+  const rules = RULE_SETS[settings.ruleSet];
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/70 backdrop-blur-sm p-6">
+      <div className="w-full max-w-sm bg-neutral-900 border border-white/10 rounded-2xl p-6 flex flex-col gap-4 shadow-2xl">
+        <h3 className="title-font text-2xl text-yellow-500 text-center">对局设置</h3>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold text-gray-500 uppercase px-1">棋盘</span>
+          <div className="flex gap-2">
+            {BOARD_SIZES.map(size => (
+              <button key={size} onClick={() => update({ boardSize: size })} className={option(settings.boardSize === size)}>{size} 路</button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold text-gray-500 uppercase px-1">规则 / 贴目</span>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(RULE_SETS) as RuleSet[]).map(r => (
+              <button key={r} onClick={() => setRuleSet(r)} className={option(settings.ruleSet === r)}>{RULE_SETS[r].label}</button>
+            ))}
+          </div>
+          <p className="text-[9px] text-gray-500 px-1">
+            {rules.scoringMethod === 'area' ? '数子法' : '数目法'} · {KO_LABELS[rules.ko]} · {rules.suicide ? '允许多子自杀' : '禁止自杀'}
+          </p>
+          <div className="flex gap-2">
+            {KOMI_PRESETS.map(k => (
+              <button key={k} onClick={() => update({ komi: k })} className={option(settings.komi === k)}>{k}</button>
+            ))}
+            <input type="number" step="0.5" value={settings.komi} onChange={(e) => { const komi = parseFloat(e.target.value); if (!Number.isNaN(komi)) update({ komi }); }} className={`w-20 bg-black/40 border rounded-lg text-[10px] font-bold text-center outline-none text-white ${KOMI_PRESETS.includes(settings.komi) ? 'border-white/5' : 'border-yellow-500'}`} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold text-gray-500 uppercase px-1">让子</span>
+          <div className="grid grid-cols-5 gap-2">
+            {HANDICAPS.map(h => (
+              <button key={h} onClick={() => setHandicap(h)} className={option(settings.handicap === h)}>{h === 0 ? '无' : h}</button>
+            ))}
+          </div>
+          {settings.handicap > 0 && (
+            <div className="flex gap-2">
+              {([['fixed', '固定星位'], ['free', '自由摆放']] as [HandicapMode, string][]).map(([m, label]) => (
+                <button key={m} onClick={() => update({ handicapMode: m })} className={option(settings.handicapMode === m)}>{label}</button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold text-gray-500 uppercase px-1">用时</span>
+          <div className="grid grid-cols-2 gap-2">
+            {TIME_PRESETS.map(({ label, control }) => (
+              <button key={label} onClick={() => update({ timeControl: control })} className={option(Clock.describe(settings.timeControl) === Clock.describe(control))}>{label}</button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold text-gray-500 uppercase px-1">我方执子（联机）</span>
+          <div className="flex gap-2">
+            {([['black', '执黑'], ['white', '执白'], ['nigiri', '猜先']] as [PlayerColor | 'nigiri', string][]).map(([c, label]) => (
+              <button key={c} onClick={() => update({ hostColor: c })} className={option(settings.hostColor === c)}>{label}</button>
+            ))}
+          </div>
+        </div>
+
+        <button onClick={onClose} className="w-full bg-yellow-600 py-3 rounded-xl font-bold text-xs uppercase tracking-widest active:scale-95 transition-transform">完成</button>
+      </div>
+    </div>
+  );
+};
+
+export default SetupDialog;
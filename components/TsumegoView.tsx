@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Point } from '../types.ts';
+import { Tsumego, TsumegoAttempt, TsumegoProblem, TsumegoProgress } from '../logic/Tsumego.ts';
+import GoBoard from './GoBoard.tsx';
+
+interface TsumegoViewProps {
+  onClose: () => void;
+}
+
+// 对方应对前稍作停顿，看得清是哪一手
+const REPLY_DELAY = 400;
+
+const TsumegoView: React.FC<TsumegoViewProps> = ({ onClose }) => {
+  const [problems, setProblems] = useState<TsumegoProblem[]>(() => Tsumego.starter());
+  const [index, setIndex] = useState(0);
+  const [attempt, setAttempt] = useState<TsumegoAttempt>(() => Tsumego.start(problems[0]));
+  const [progress, setProgress] = useState<TsumegoProgress>(() => Tsumego.loadProgress());
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const open = (list: TsumegoProblem[], i: number) => {
+    setIndex(i);
+    setAttempt(Tsumego.start(list[i]));
+    setMessage('');
+  };
+
+  // 一次作答结束时记入进度
+  const advance = (prev: TsumegoAttempt, next: TsumegoAttempt) => {
+    if (prev.status === 'solving' && next.status !== 'solving') {
+      setProgress(p => Tsumego.record(p, next.problem.id, next.status === 'right'));
+    }
+    setAttempt(next);
+  };
+
+  useEffect(() => {
+    if (!Tsumego.awaitingReply(attempt)) return;
+    const timer = window.setTimeout(() => {
+      try {
+        advance(attempt, Tsumego.respond(attempt));
+      } catch (err) {
+        setMessage((err as Error).message);
+      }
+    }, REPLY_DELAY);
+    return () => clearTimeout(timer);
+  }, [attempt]);
+
+  const onMove = (p: Point) => {
+    if (Tsumego.awaitingReply(attempt)) return;
+    const result = Tsumego.play(attempt, p);
+    setMessage(result.error ? (result.error === 'Suicide move is illegal' ? '不能自杀' : '无效步') : '');
+    advance(attempt, result.attempt);
+  };
+
+  const loadCollection = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      // 追加在已有题目之后，重复载入同一文件时不会重复
+      const loaded = Tsumego.load(await file.text(), file.name).filter(p => !problems.some(q => q.id === p.id));
+      if (loaded.length === 0) throw new Error('文件中没有新题目');
+      const list = [...problems, ...loaded];
+      setProblems(list);
+      open(list, problems.length);
+    } catch (err) {
+      setMessage(`题集无效：${(err as Error).message}`);
+    }
+  };
+
+  const problem = problems[index];
+  const size = problem.settings.boardSize;
+  const cellSize = Math.floor(Math.min(window.innerWidth - 48, 480) / (size + 0.5));
+  const mark = (id: string) => {
+    const p = progress.problems[id];
+    if (!p) return '';
+    return p.last === 'right' ? '✓' : '✗';
+  };
+  const stats = progress.problems[problem.id];
+  const toMove = attempt.problem.setup.player === 'black' ? '黑先' : '白先';
+
+  return (
+    <div className="fixed inset-0 bg-[#080808] flex items-center justify-center p-6 text-white overflow-hidden">
+      <div className="w-full max-w-xl max-h-full bg-neutral-900 border border-white/5 rounded-2xl p-6 flex flex-col gap-4 shadow-2xl overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between">
+          <h3 className="title-font text-2xl text-yellow-500">死活题</h3>
+          <div className="flex items-center gap-3">
+            <span className="text-[9px] font-mono text-gray-500">连对 {progress.streak} · 最佳 {progress.bestStreak}</span>
+            <button onClick={onClose} className="text-gray-400 font-bold text-[10px] uppercase tracking-wider px-3 py-2 bg-white/5 rounded-lg border border-white/5 active:scale-95">返回</button>
+          </div>
+        </div>
+        <div className="flex gap-2 overflow-x-auto no-scrollbar shrink-0">
+          {problems.map((p, i) => (
+            <button
+              key={p.id}
+              onClick={() => open(problems, i)}
+              aria-current={i === index}
+              className={`shrink-0 px-3 py-2 rounded-lg border text-[10px] font-bold active:scale-95 ${i === index ? 'bg-yellow-600 border-yellow-500' : 'bg-black/40 border-white/5 text-gray-300'}`}
+            >
+              {i + 1}. {p.title} <span className={progress.problems[p.id]?.last === 'right' ? 'text-green-400' : 'text-red-400'}>{mark(p.id)}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-center">
+          <GoBoard
+            board={attempt.state.board}
+            onMove={onMove}
+            currentPlayer={attempt.state.currentPlayer}
+            disabled={attempt.status !== 'solving' || Tsumego.awaitingReply(attempt)}
+            cellSize={cellSize}
+            pendingMove={null}
+            lastMove={attempt.state.lastMove}
+          />
+        </div>
+        <div className="flex flex-col gap-1 min-h-[3rem]" aria-live="polite">
+          <div className="flex items-center justify-between gap-2 text-[10px]">
+            <span className={`font-bold ${attempt.status === 'right' ? 'text-green-400' : attempt.status === 'wrong' ? 'text-red-400' : 'text-yellow-500'}`}>
+              {attempt.status === 'right' ? '答对了' : attempt.status === 'wrong' ? '答错了' : toMove}
+            </span>
+            {stats && <span className="text-gray-500 shrink-0">答对 {stats.solved} / {stats.attempts} 次</span>}
+          </div>
+          {attempt.comment && <p className="text-xs text-gray-300 whitespace-pre-wrap">{attempt.comment}</p>}
+          {message && <p className="text-[10px] text-red-300">{message}</p>}
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => open(problems, index)} className="flex-1 py-2 rounded-lg bg-white/5 border border-white/5 text-[10px] font-bold active:scale-95">重试</button>
+          <button onClick={() => open(problems, (index + 1) % problems.length)} className="flex-1 py-2 rounded-lg bg-yellow-600 text-[10px] font-bold active:scale-95">下一题</button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex-1 py-2 rounded-lg bg-white/5 border border-white/5 text-[10px] font-bold active:scale-95">载入题集</button>
+          <input ref={fileInputRef} type="file" accept=".sgf,application/x-go-sgf" onChange={loadCollection} className="hidden" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TsumegoView;
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { GameSettings, GameState, Point } from '../types';
+import { Ai } from './Ai';
+import { NO_TIME_CONTROL } from './Clock';
+import { GameFlow } from './GameFlow';
+import { Scoring } from './Scoring';
+
+const settings: GameSettings = {
+  boardSize: 9, komi: 6.5, ruleSet: 'japanese', scoringMethod: 'territory', handicap: 0, handicapMode: 'fixed',
+  timeControl: NO_TIME_CONTROL, hostColor: 'black',
+};
+
+const column = (x: number): Point[] => Array.from({ length: 9 }, (_, y) => ({ x, y }));
+
+// 黑占左边四路、白占右边三路，黑地的角上有一颗白子
+const position = (): GameState => GameFlow.fromSetup(settings, {
+  black: column(4),
+  white: [...column(5), { x: 0, y: 0 }],
+  player: 'black',
+  captured: { black: 0, white: 0 },
+});
+
+test('the lone stone inside the opponent area is estimated dead', () => {
+  const dead = Ai.estimateDeadStones(position());
+  assert.deepEqual(dead, [{ x: 0, y: 0 }]);
+});
+
+test('the evaluation uses the game scoring method with the dead stones removed', () => {
+  const state = position();
+  // 原先按数子直接数盘面：黑地里有白子，整块都算不上地
+  assert.equal(Scoring.score(state.board, state.captured, state.komi, 'area').winner, 'white');
+  const score = Ai.evaluate(state);
+  assert.equal(score.method, 'territory');
+  assert.equal(score.black.total, 36 + 1);
+  assert.equal(score.white.total, 27 + 6.5);
+  assert.equal(score.winner, 'black');
+});
+
+test('the computer passes back when it is ahead after the opponent passed', () => {
+  assert.deepEqual(Ai.chooseMove(GameFlow.pass({ ...position(), currentPlayer: 'white' }), 'easy'), { type: 'pass' });
+});
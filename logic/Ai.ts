@@ -0,0 +1,228 @@
+import { GameState, Point, ScoreResult } from '../types';
+import { Board, BLACK, EMPTY, WHITE, colorCode } from './Board';
+import { GoRules, RULE_SETS } from './GoRules';
+import { Scoring } from './Scoring';
+
+export type AiLevel = 'easy' | 'medium' | 'hard';
+
+export type AiAction = { type: 'move'; point: Point } | { type: 'pass' } | { type: 'resign' };
+
+export const AI_LEVELS: Record<AiLevel, { label: string; timeMs: number; candidates: number }> = {
+  easy: { label: '入门', timeMs: 400, candidates: 6 },
+  medium: { label: '进阶', timeMs: 1500, candidates: 14 },
+  hard: { label: '高手', timeMs: 4000, candidates: 24 },
+};
+
+const DIAGONALS = [[-1, -1], [1, -1], [-1, 1], [1, 1]];
+// 判断死子时的模拟次数
+const DEAD_STONE_PLAYOUTS = 64;
+
+export interface Candidate {
+  point: number;
+  prior: number;
+  wins: number;
+  visits: number;
+  playouts: number;  // 实际模拟次数，不含先验的虚拟胜局
+  margin: number;    // 模拟终局时行棋方净胜子数之和
+}
+
+export class Ai {
+  // 真眼的粗略判断：四周同色，且斜角对方棋子不超过允许数
+  static isEye(engine: Board, i: number, color: number): boolean {
+    const { cells, nbr, nbrCount, size } = engine;
+    if (cells[i] !== EMPTY) return false;
+    for (let k = 0; k < nbrCount[i]; k++) {
+      if (cells[nbr[i * 4 + k]] !== color) return false;
+    }
+    const x = i % size;
+    const y = (i - x) / size;
+    let diagonals = 0;
+    let enemies = 0;
+    for (const [dx, dy] of DIAGONALS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || nx >= size || ny < 0 || ny >= size) continue;
+      diagonals++;
+      if (cells[ny * size + nx] === 3 - color) enemies++;
+    }
+    return enemies <= (diagonals < 4 ? 0 : 1);
+  }
+
+  // 轻量棋形启发：提子、长气、打吃、靠近上一手，避免自紧气与开局一线
+  static heuristic(engine: Board, i: number, color: number, lastMove: Point | null, stoneCount: number): number {
+    const { size, cells, nbr, nbrCount } = engine;
+    let score = 0;
+
+    for (let k = 0; k < nbrCount[i]; k++) {
+      const nb = nbr[i * 4 + k];
+      if (cells[nb] === EMPTY) continue;
+      const libs = engine.libertyCount(nb, 2);
+      if (cells[nb] === color && libs === 1) score += 8;
+      if (cells[nb] !== color && libs === 2) score += 3;
+    }
+
+    const captured = engine.play(i, color);
+    if (!captured) return -Infinity;
+    score += captured.length * 10;
+    if (engine.libertyCount(i, 1) === 1) score -= 6;
+    engine.undo();
+
+    const p = engine.point(i);
+    if (lastMove && Math.abs(lastMove.x - p.x) + Math.abs(lastMove.y - p.y) <= 2) score += 1.5;
+
+    const line = Math.min(p.x, p.y, size - 1 - p.x, size - 1 - p.y);
+    if (stoneCount < size * size / 4) {
+      if (line === 0) score -= 3;
+      else if (line === 1) score -= 1;
+      else if (line === 2 || line === 3) score += 1;
+    }
+    return score;
+  }
+
+  // 随机模拟终局后一点的归属：有子归该色，空点只要四周同色即归该方
+  static owner(engine: Board, i: number): number {
+    const { cells, nbr, nbrCount } = engine;
+    let owner = cells[i];
+    if (owner !== EMPTY) return owner;
+    for (let k = 0; k < nbrCount[i]; k++) {
+      const c = cells[nbr[i * 4 + k]];
+      if (c === EMPTY || (owner !== EMPTY && c !== owner)) return EMPTY;
+      owner = c;
+    }
+    return owner;
+  }
+
+  // 随机模拟终局后的简易数子
+  static areaScore(engine: Board, komi: number): number {
+    let score = -komi;
+    for (let i = 0; i < engine.cells.length; i++) {
+      const owner = this.owner(engine, i);
+      if (owner === BLACK) score++;
+      else if (owner === WHITE) score--;
+    }
+    return score;
+  }
+
+  // 在引擎副本上随机下到双方无处可下，返回黑方净胜子数
+  static playout(engine: Board, toMove: number, komi: number): number {
+    return this.areaScore(this.rollout(engine, toMove), komi);
+  }
+
+  // 随机下到双方无处可下，返回终局的引擎副本
+  static rollout(engine: Board, toMove: number): Board {
+    const board = engine.clone();
+    const empties: number[] = [];
+    for (let i = 0; i < board.cells.length; i++) {
+      if (board.cells[i] === EMPTY) empties.push(i);
+    }
+
+    let color = toMove;
+    let passes = 0;
+    const maxMoves = board.cells.length * 2;
+    for (let n = 0; n < maxMoves && passes < 2; n++) {
+      let played = false;
+      // 从随机位置起扫描一圈，找到第一个合法且不填己眼的点
+      const start = Math.floor(Math.random() * empties.length);
+      for (let k = 0; k < empties.length; k++) {
+        const j = (start + k) % empties.length;
+        const i = empties[j];
+        if (this.isEye(board, i, color)) continue;
+        const captured = board.play(i, color);
+        if (!captured) continue;
+        empties[j] = empties[empties.length - 1];
+        empties.pop();
+        empties.push(...captured);
+        played = true;
+        break;
+      }
+      passes = played ? 0 : passes + 1;
+      color = 3 - color;
+    }
+    return board;
+  }
+
+  // 多次模拟终局，过半数时候被对方占去的棋子算作死子
+  static estimateDeadStones(state: GameState, playouts: number = DEAD_STONE_PLAYOUTS): Point[] {
+    const engine = Board.fromState(state.board);
+    const toMove = colorCode(state.currentPlayer);
+    const lost = new Uint16Array(engine.cells.length);
+    for (let n = 0; n < playouts; n++) {
+      const end = this.rollout(engine, toMove);
+      for (let i = 0; i < engine.cells.length; i++) {
+        if (engine.cells[i] !== EMPTY && this.owner(end, i) !== engine.cells[i]) lost[i]++;
+      }
+    }
+    const dead: Point[] = [];
+    lost.forEach((count, i) => { if (count * 2 > playouts) dead.push(engine.point(i)); });
+    return dead;
+  }
+
+  // 按本局的计分方式形势判断，死子先按模拟估出
+  static evaluate(state: GameState, playouts?: number): ScoreResult {
+    return Scoring.score(state.board, state.captured, state.komi, state.scoringMethod, this.estimateDeadStones(state, playouts));
+  }
+
+  // 按规则合法且不填己眼的点，按启发分从高到低取前 max 个
+  static candidates(state: GameState, engine: Board, max: number): Candidate[] {
+    const color = colorCode(state.currentPlayer);
+    const stoneCount = engine.cells.reduce((sum, c) => sum + (c === EMPTY ? 0 : 1), 0);
+    const candidates: Candidate[] = [];
+    for (let i = 0; i < engine.cells.length; i++) {
+      if (engine.cells[i] !== EMPTY || this.isEye(engine, i, color)) continue;
+      if (!GoRules.isValidMove(state.board, engine.point(i), state.currentPlayer, state.history, RULE_SETS[state.ruleSet]).valid) continue;
+      const prior = this.heuristic(engine, i, color, state.lastMove, stoneCount) + Math.random();
+      candidates.push({ point: i, prior, wins: 0, visits: 0, playouts: 0, margin: 0 });
+    }
+    return candidates.sort((a, b) => b.prior - a.prior).slice(0, max);
+  }
+
+  // 对候选点做 UCB 模拟，直到 stop 返回真；返回按访问次数排序的候选
+  static search(engine: Board, pool: Candidate[], color: number, komi: number, stop: (playouts: number) => boolean): Candidate[] {
+    const sign = color === BLACK ? 1 : -1;
+    // 启发分折算成虚拟胜局，作为 UCB 的先验
+    pool.forEach(c => { c.visits = 2; c.wins = Math.max(0, Math.min(2, 1 + c.prior / 10)); });
+
+    let total = pool.length * 2;
+    let playouts = 0;
+    while (!stop(playouts)) {
+      let best = pool[0];
+      let bestUcb = -Infinity;
+      for (const c of pool) {
+        const ucb = c.wins / c.visits + Math.sqrt(2 * Math.log(total) / c.visits);
+        if (ucb > bestUcb) { bestUcb = ucb; best = c; }
+      }
+      engine.play(best.point, color);
+      const margin = this.playout(engine, 3 - color, komi) * sign;
+      engine.undo();
+      best.wins += margin > 0 ? 1 : margin === 0 ? 0.5 : 0;
+      best.visits += 1;
+      best.playouts += 1;
+      best.margin += margin;
+      total += 1;
+      playouts += 1;
+    }
+    return [...pool].sort((a, b) => b.visits - a.visits);
+  }
+
+  static chooseMove(state: GameState, level: AiLevel): AiAction {
+    const { timeMs, candidates: maxCandidates } = AI_LEVELS[level];
+    const board = state.board;
+    const color = colorCode(state.currentPlayer);
+    const size = board.length;
+    const engine = Board.fromState(board);
+
+    // 对手已跳过且局面领先时跟着跳过
+    if (state.passCount > 0 && this.evaluate(state).winner === state.currentPlayer) return { type: 'pass' };
+
+    const pool = this.candidates(state, engine, maxCandidates);
+    if (pool.length === 0) return { type: 'pass' };
+
+    const deadline = Date.now() + timeMs;
+    const ranked = this.search(engine, pool, color, state.komi, () => Date.now() >= deadline);
+    const chosen = level === 'easy' ? ranked[Math.floor(Math.random() * Math.min(3, ranked.length))] : ranked[0];
+    const winRate = ranked[0].wins / ranked[0].visits;
+
+    if (level !== 'easy' && winRate < 0.05 && state.moves.length > size * size / 3) return { type: 'resign' };
+    return { type: 'move', point: engine.point(chosen.point) };
+  }
+}
@@ -0,0 +1,12 @@
+import { GameState } from '../types';
+import { Ai, AiAction, AiLevel } from './Ai';
+import { GameFlow } from './GameFlow';
+
+// 在 Web Worker 中运行搜索，避免阻塞界面；选出的着手再按对局同一套规则核对，不合规就跳过
+self.onmessage = (e: MessageEvent<{ id: number; state: GameState; level: AiLevel }>) => {
+  const { id, state, level } = e.data;
+  const action = Ai.chooseMove(state, level);
+  const legal = action.type !== 'move' || GameFlow.playMove(state, action.point).valid;
+  const reply: AiAction = legal ? action : { type: 'pass' };
+  self.postMessage({ id, action: reply });
+};
@@ -0,0 +1,80 @@
+import { GameMove, GameState, PlayerColor, Point } from '../types';
+import { Ai } from './Ai';
+import { Board, colorCode } from './Board';
+
+export interface PositionEval {
+  winRate: number;     // 黑方胜率，0~1
+  lead: number;        // 黑方领先的子数，负数为白方领先
+  best: Point | null;  // 行棋方的首选点，无处可下时为 null
+  bestLead: number;    // 走首选点之后的黑方领先子数
+}
+
+export interface Mistake {
+  moveNumber: number;
+  player: PlayerColor;
+  loss: number;        // 这一手让行棋方损失的子数
+  played: Point | null;
+  best: Point | null;
+}
+
+// 9 路每个局面的模拟次数，大棋盘按面积递减，19 路一盘也能在几分钟内算完
+const PLAYOUTS = 300;
+const MIN_PLAYOUTS = 100;
+const CANDIDATES = 12;
+const MAX_MISTAKES = 5;
+
+// 随机模拟的胜率起伏很小，失着按目差判断；损失不到半路宽的不算
+const mistakeThreshold = (size: number) => Math.max(3, size / 2);
+
+const samePoint = (a: Point | null, b: Point | null) => a?.x === b?.x && a?.y === b?.y;
+
+/**
+ * 终局后的形势分析：对每个局面做蒙特卡洛模拟，估出胜率与目差，胜率落差最大的几手记为失着。
+ */
+export class Analysis {
+  // 胜率与目差取自当前局面直接模拟的平均，不取首选点的结果，免得总偏向行棋方
+  static evaluate(state: GameState, playouts: number = this.playouts(state.board.length)): PositionEval {
+    const engine = Board.fromState(state.board);
+    const color = colorCode(state.currentPlayer);
+    const { winRate, lead } = this.simulate(engine, color, state.komi, playouts);
+    const pool = Ai.candidates(state, engine, CANDIDATES);
+    if (pool.length === 0) return { winRate, lead, best: null, bestLead: lead };
+    const top = Ai.search(engine, pool, color, state.komi, n => n >= playouts)[0];
+    // 搜索中首选点的平均值是挑出来的最大值，偏高，另行模拟一遍
+    engine.play(top.point, color);
+    const bestLead = this.simulate(engine, 3 - color, state.komi, playouts).lead;
+    engine.undo();
+    return { winRate, lead, best: engine.point(top.point), bestLead };
+  }
+
+  private static simulate(engine: Board, toMove: number, komi: number, playouts: number): { winRate: number; lead: number } {
+    let wins = 0;
+    let lead = 0;
+    for (let n = 0; n < playouts; n++) {
+      const margin = Ai.playout(engine, toMove, komi);
+      wins += margin > 0 ? 1 : margin === 0 ? 0.5 : 0;
+      lead += margin;
+    }
+    return { winRate: wins / playouts, lead: lead / playouts };
+  }
+
+  static playouts(size: number): number {
+    return Math.max(MIN_PLAYOUTS, Math.round(PLAYOUTS * 81 / (size * size)));
+  }
+
+  // positions[n] 为第 n 手之后的局面，未算出的为 null
+  static mistakes(positions: (PositionEval | null)[], moves: GameMove[], size: number): Mistake[] {
+    const found: Mistake[] = [];
+    moves.forEach((move, i) => {
+      const before = positions[i];
+      const after = positions[i + 1];
+      if (!before || !after) return;
+      // 与首选点走后的局面相比，双方都是刚落完子，不受先后手的影响
+      const drop = before.bestLead - after.lead;
+      const loss = move.player === 'black' ? drop : -drop;
+      if (loss < mistakeThreshold(size) || samePoint(before.best, move.point)) return;
+      found.push({ moveNumber: i + 1, player: move.player, loss, played: move.point, best: before.best });
+    });
+    return found.sort((a, b) => b.loss - a.loss).slice(0, MAX_MISTAKES);
+  }
+}
@@ -0,0 +1,12 @@
+import { BoardSetup, GameMove, GameSettings, Point } from '../types';
+import { Analysis } from './Analysis';
+import { Review } from './Review';
+
+// 逐个局面分析，每算完一个就发回，界面可以边算边画；中途取消由界面结束 Worker
+self.onmessage = (e: MessageEvent<{ settings: GameSettings; handicapStones: Point[]; moves: GameMove[]; setup: BoardSetup | null }>) => {
+  const { settings, handicapStones, moves, setup } = e.data;
+  const tree = Review.fromMoves(settings, handicapStones, moves, setup);
+  tree.nodes.forEach(node => {
+    self.postMessage({ moveNumber: node.moveNumber, eval: Analysis.evaluate(node.state) });
+  });
+};
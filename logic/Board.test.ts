@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BoardState } from '../types';
+import { BLACK, Board, EMPTY, WHITE } from './Board';
+
+// X 为黑，O 为白，其余为空
+const parse = (rows: string[]): BoardState =>
+  rows.map(row => [...row].map(c => c === 'X' ? 'black' : c === 'O' ? 'white' : null));
+
+const sorted = (points: number[] | null) => points && [...points].sort((a, b) => a - b);
+
+// 增量维护的串、气与哈希须与按当前盘面重建的结果一致
+const assertConsistent = (engine: Board) => {
+  const fresh = Board.fromState(engine.toState());
+  assert.equal(engine.hash, fresh.hash);
+  for (let i = 0; i < engine.cells.length; i++) {
+    if (engine.cells[i] === EMPTY) continue;
+    assert.deepEqual(sorted(engine.chainStones(i)), sorted(fresh.chainStones(i)), `chain at ${i}`);
+    assert.deepEqual(sorted(engine.chainLiberties(i)), sorted(fresh.chainLiberties(i)), `liberties at ${i}`);
+    assert.equal(engine.libertyCount(i), fresh.libertyCount(i));
+  }
+};
+
+const CAPTURE = parse([
+  '.XX..',
+  'XOO..',
+  '.XX..',
+  '.....',
+  '.....',
+]);
+
+test('taking the last liberty captures the whole chain', () => {
+  const engine = Board.fromState(CAPTURE);
+  const i = engine.index({ x: 3, y: 1 });
+  assert.deepEqual(sorted(engine.play(i, BLACK)), [6, 7]);
+  assert.equal(engine.cells[6], EMPTY);
+  assert.equal(engine.cells[7], EMPTY);
+  assert.equal(engine.libertyCount(i), 4);
+  assert.equal(engine.libertyCount(engine.index({ x: 1, y: 0 })), 4);
+  assertConsistent(engine);
+});
+
+test('suicide is refused unless allowed, and then removes the chain', () => {
+  const single = Board.fromState(parse(['.X', 'X.']));
+  assert.equal(single.play(0, WHITE), null);
+  assert.equal(single.cells[0], EMPTY);
+  assert.equal(single.hash, Board.fromState(parse(['.X', 'X.'])).hash);
+  assert.equal(single.moveCount, 0);
+  assert.deepEqual(single.play(0, WHITE, true), [0]);
+  assert.equal(single.cells[0], EMPTY);
+
+  const rows = ['OX..', '.X..', 'XX..', '....'];
+  const engine = Board.fromState(parse(rows));
+  const i = engine.index({ x: 0, y: 1 });
+  assert.equal(engine.play(i, WHITE), null);
+  assert.equal(engine.cells[i], EMPTY);
+  assert.equal(engine.libertyCount(0), 1);
+  assertConsistent(engine);
+
+  assert.deepEqual(sorted(engine.play(i, WHITE, true)), [0, i]);
+  assert.equal(engine.cells[0], EMPTY);
+  assertConsistent(engine);
+  engine.undo();
+  assert.equal(engine.cells[0], WHITE);
+  assert.equal(engine.libertyCount(0), 1);
+  assert.equal(engine.hash, Board.fromState(parse(rows)).hash);
+  assertConsistent(engine);
+});
+
+test('undo restores captured chains, split chains and their liberties', () => {
+  const engine = Board.fromState(CAPTURE);
+  const before = engine.hash;
+  engine.play(engine.index({ x: 3, y: 1 }), BLACK);
+  engine.undo();
+  assert.equal(engine.hash, before);
+  assert.deepEqual(engine.toState(), CAPTURE);
+  assert.deepEqual(sorted(engine.chainStones(6)), [6, 7]);
+  assert.deepEqual(sorted(engine.chainLiberties(6)), [8]);
+  assertConsistent(engine);
+
+  // 连起两串后悔回，两串重新分开
+  const linked = Board.fromState(parse(['X.X', '...', '...']));
+  linked.play(1, BLACK);
+  assert.equal(linked.chainStones(0).length, 3);
+  linked.undo();
+  assert.deepEqual(linked.chainStones(0), [0]);
+  assert.deepEqual(sorted(linked.chainLiberties(2)), [1, 5]);
+  assertConsistent(linked);
+});
+
+test('the hash depends only on the position', () => {
+  const empty = new Board(5);
+  assert.equal(empty.hash, 0);
+  const a = new Board(5);
+  const b = new Board(5);
+  [[0, BLACK], [1, WHITE], [12, BLACK]].forEach(([i, color]) => a.play(i, color));
+  [[12, BLACK], [0, BLACK], [1, WHITE]].forEach(([i, color]) => b.play(i, color));
+  assert.equal(a.hash, b.hash);
+  assert.equal(a.hash, Board.fromState(a.toState()).hash);
+  assert.equal(a.clone().hash, a.hash);
+
+  const black = new Board(5);
+  const white = new Board(5);
+  black.play(12, BLACK);
+  white.play(12, WHITE);
+  assert.notEqual(black.hash, white.hash);
+  a.undo();
+  a.undo();
+  a.undo();
+  assert.equal(a.hash, 0);
+});
+
+test('random play and undo keep chains, liberties and hash in step with a rebuilt board', () => {
+  const engine = new Board(7);
+  let seed = 7;
+  const random = (n: number) => (seed = seed * 48271 % 2147483647) % n;
+  let color = BLACK;
+  for (let step = 0; step < 1500; step++) {
+    if (engine.moveCount > 0 && random(5) === 0) {
+      engine.undo();
+    } else if (engine.play(random(49), color, random(2) === 0)) {
+      color = 3 - color;
+    }
+    assertConsistent(engine);
+  }
+});
@@ -0,0 +1,339 @@
+import { BoardState, PlayerColor, Point } from '../types';
+
+export const EMPTY = 0;
+export const BLACK = 1;
+export const WHITE = 2;
+
+export const colorCode = (color: PlayerColor): number => color === 'black' ? BLACK : WHITE;
+export const colorName = (code: number): PlayerColor | null => code === BLACK ? 'black' : code === WHITE ? 'white' : null;
+
+interface MoveRecord {
+  point: number;
+  color: number;
+  captured: number[];
+  suicide: boolean;
+  hashLo: number;
+  hashHi: number;
+}
+
+// Zobrist 表用固定种子生成，保证双方算出的局面哈希一致
+const MAX_POINTS = 25 * 25;
+const zobrist = (() => {
+  let seed = 0x9e3779b9;
+  const next = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+  const lo = new Uint32Array(MAX_POINTS * 3);
+  const hi = new Uint32Array(MAX_POINTS * 3);
+  for (let i = 0; i < lo.length; i++) {
+    lo[i] = next();
+    hi[i] = next() & 0x1fffff; // 高位只取 21 位，合成后仍是精确的 53 位整数
+  }
+  return { lo, hi };
+})();
+
+// 每种尺寸的邻接表只算一次
+const neighborCache = new Map<number, { nbr: Int32Array; count: Uint8Array }>();
+const getNeighbors = (size: number) => {
+  let cached = neighborCache.get(size);
+  if (!cached) {
+    const n = size * size;
+    const nbr = new Int32Array(n * 4).fill(-1);
+    const count = new Uint8Array(n);
+    for (let i = 0; i < n; i++) {
+      const x = i % size;
+      const y = (i - x) / size;
+      if (x > 0) nbr[i * 4 + count[i]++] = i - 1;
+      if (x < size - 1) nbr[i * 4 + count[i]++] = i + 1;
+      if (y > 0) nbr[i * 4 + count[i]++] = i - size;
+      if (y < size - 1) nbr[i * 4 + count[i]++] = i + size;
+    }
+    cached = { nbr, count };
+    neighborCache.set(size, cached);
+  }
+  return cached;
+};
+
+/**
+ * 基于定型数组的棋盘引擎。
+ * 每串棋子用环形链表串起，串首记录子数与伪气数（按相邻次数计，为 0 即无气），
+ * 落子时增量合并与提子，悔棋时只重建受影响的串。
+ */
+export class Board {
+  readonly size: number;
+  readonly cells: Uint8Array;
+  readonly nbr: Int32Array;
+  readonly nbrCount: Uint8Array;
+  private readonly next: Int32Array;
+  private readonly head: Int32Array;
+  private readonly stones: Int32Array;
+  private readonly libs: Int32Array;
+  private readonly mark: Int32Array;
+  private markGen = 0;
+  private hashLo = 0;
+  private hashHi = 0;
+  private undoStack: MoveRecord[] = [];
+
+  constructor(size: number) {
+    const n = size * size;
+    this.size = size;
+    this.cells = new Uint8Array(n);
+    this.next = new Int32Array(n);
+    this.head = new Int32Array(n);
+    this.stones = new Int32Array(n);
+    this.libs = new Int32Array(n);
+    this.mark = new Int32Array(n);
+    const { nbr, count } = getNeighbors(size);
+    this.nbr = nbr;
+    this.nbrCount = count;
+  }
+
+  static fromState(board: BoardState): Board {
+    const engine = new Board(board.length);
+    for (let y = 0; y < board.length; y++) {
+      for (let x = 0; x < board.length; x++) {
+        const color = board[y][x];
+        if (!color) continue;
+        const i = y * board.length + x;
+        engine.cells[i] = colorCode(color);
+        engine.toggleHash(i, engine.cells[i]);
+      }
+    }
+    engine.markGen++;
+    for (let i = 0; i < engine.cells.length; i++) {
+      if (engine.cells[i] !== EMPTY) engine.rebuildChain(i);
+    }
+    return engine;
+  }
+
+  toState(): BoardState {
+    const board: BoardState = [];
+    for (let y = 0; y < this.size; y++) {
+      const row: (PlayerColor | null)[] = [];
+      for (let x = 0; x < this.size; x++) row.push(colorName(this.cells[y * this.size + x]));
+      board.push(row);
+    }
+    return board;
+  }
+
+  clone(): Board {
+    const copy = new Board(this.size);
+    copy.cells.set(this.cells);
+    copy.next.set(this.next);
+    copy.head.set(this.head);
+    copy.stones.set(this.stones);
+    copy.libs.set(this.libs);
+    copy.hashLo = this.hashLo;
+    copy.hashHi = this.hashHi;
+    return copy;
+  }
+
+  get hash(): number {
+    return this.hashHi * 0x100000000 + this.hashLo;
+  }
+
+  index(p: Point): number {
+    return p.y * this.size + p.x;
+  }
+
+  point(i: number): Point {
+    const x = i % this.size;
+    return { x, y: (i - x) / this.size };
+  }
+
+  // 落子；返回被提的点位，落在有子处或自杀（不允许时）返回 null，局面不变
+  play(i: number, color: number, allowSuicide: boolean = false): number[] | null {
+    if (this.cells[i] !== EMPTY) return null;
+    const opp = 3 - color;
+    const record: MoveRecord = { point: i, color, captured: [], suicide: false, hashLo: this.hashLo, hashHi: this.hashHi };
+    const base = i * 4;
+    const count = this.nbrCount[i];
+
+    this.cells[i] = color;
+    this.toggleHash(i, color);
+    this.head[i] = i;
+    this.next[i] = i;
+    this.stones[i] = 1;
+    this.libs[i] = 0;
+
+    for (let k = 0; k < count; k++) {
+      const nb = this.nbr[base + k];
+      if (this.cells[nb] === EMPTY) this.libs[i]++;
+      else this.libs[this.head[nb]]--;
+    }
+    for (let k = 0; k < count; k++) {
+      const nb = this.nbr[base + k];
+      if (this.cells[nb] === opp && this.libs[this.head[nb]] === 0) this.removeChain(this.head[nb], record.captured);
+    }
+    for (let k = 0; k < count; k++) {
+      const nb = this.nbr[base + k];
+      if (this.cells[nb] === color && this.head[nb] !== this.head[i]) this.merge(this.head[i], this.head[nb]);
+    }
+
+    if (this.libs[this.head[i]] === 0) {
+      if (!allowSuicide) {
+        this.restore(record);
+        return null;
+      }
+      // 规则允许时自杀的整串被提走（此时不可能同时提掉对方的子）
+      record.suicide = true;
+      this.removeChain(this.head[i], record.captured);
+    }
+
+    this.undoStack.push(record);
+    return record.captured;
+  }
+
+  undo(): void {
+    const record = this.undoStack.pop();
+    if (record) this.restore(record);
+  }
+
+  get moveCount(): number {
+    return this.undoStack.length;
+  }
+
+  chainStones(i: number): number[] {
+    const result: number[] = [];
+    if (this.cells[i] === EMPTY) return result;
+    let s = i;
+    do {
+      result.push(s);
+      s = this.next[s];
+    } while (s !== i);
+    return result;
+  }
+
+  // 精确气点，需遍历整串
+  chainLiberties(i: number): number[] {
+    const result: number[] = [];
+    if (this.cells[i] === EMPTY) return result;
+    const gen = ++this.markGen;
+    let s = i;
+    do {
+      for (let k = 0; k < this.nbrCount[s]; k++) {
+        const nb = this.nbr[s * 4 + k];
+        if (this.cells[nb] === EMPTY && this.mark[nb] !== gen) {
+          this.mark[nb] = gen;
+          result.push(nb);
+        }
+      }
+      s = this.next[s];
+    } while (s !== i);
+    return result;
+  }
+
+  // 只需判断气数是否不超过 max 时提前返回
+  libertyCount(i: number, max: number = Infinity): number {
+    if (this.cells[i] === EMPTY) return 0;
+    const gen = ++this.markGen;
+    let found = 0;
+    let s = i;
+    do {
+      for (let k = 0; k < this.nbrCount[s]; k++) {
+        const nb = this.nbr[s * 4 + k];
+        if (this.cells[nb] === EMPTY && this.mark[nb] !== gen) {
+          this.mark[nb] = gen;
+          if (++found > max) return found;
+        }
+      }
+      s = this.next[s];
+    } while (s !== i);
+    return found;
+  }
+
+  private toggleHash(i: number, color: number): void {
+    const key = i * 3 + color;
+    this.hashLo = (this.hashLo ^ zobrist.lo[key]) >>> 0;
+    this.hashHi = this.hashHi ^ zobrist.hi[key];
+  }
+
+  private removeChain(h: number, out: number[]): void {
+    const start = out.length;
+    let s = h;
+    do {
+      this.toggleHash(s, this.cells[s]);
+      this.cells[s] = EMPTY;
+      out.push(s);
+      s = this.next[s];
+    } while (s !== h);
+    for (let j = start; j < out.length; j++) {
+      const stone = out[j];
+      for (let k = 0; k < this.nbrCount[stone]; k++) {
+        const nb = this.nbr[stone * 4 + k];
+        if (this.cells[nb] !== EMPTY) this.libs[this.head[nb]]++;
+      }
+    }
+  }
+
+  private merge(a: number, b: number): void {
+    if (this.stones[a] < this.stones[b]) [a, b] = [b, a];
+    let s = b;
+    do {
+      this.head[s] = a;
+      s = this.next[s];
+    } while (s !== b);
+    const tmp = this.next[a];
+    this.next[a] = this.next[b];
+    this.next[b] = tmp;
+    this.stones[a] += this.stones[b];
+    this.libs[a] += this.libs[b];
+  }
+
+  private restore(record: MoveRecord): void {
+    const restored = record.suicide ? record.color : 3 - record.color;
+    this.cells[record.point] = EMPTY;
+    for (const s of record.captured) {
+      if (s !== record.point) this.cells[s] = restored;
+    }
+    this.hashLo = record.hashLo;
+    this.hashHi = record.hashHi;
+
+    this.markGen++;
+    const touched = [record.point, ...record.captured];
+    for (const s of touched) {
+      if (this.cells[s] !== EMPTY) this.rebuildChain(s);
+      for (let k = 0; k < this.nbrCount[s]; k++) {
+        const nb = this.nbr[s * 4 + k];
+        if (this.cells[nb] !== EMPTY) this.rebuildChain(nb);
+      }
+    }
+  }
+
+  private rebuildChain(start: number): void {
+    const gen = this.markGen;
+    if (this.mark[start] === gen) return;
+    const color = this.cells[start];
+    const stack = [start];
+    let prev = start;
+    let stones = 0;
+    let libs = 0;
+    this.mark[start] = gen;
+    this.next[start] = start;
+
+    while (stack.length > 0) {
+      const s = stack.pop()!;
+      this.head[s] = start;
+      if (s !== start) {
+        this.next[s] = this.next[prev];
+        this.next[prev] = s;
+        prev = s;
+      }
+      stones++;
+      for (let k = 0; k < this.nbrCount[s]; k++) {
+        const nb = this.nbr[s * 4 + k];
+        const c = this.cells[nb];
+        if (c === EMPTY) libs++;
+        else if (c === color && this.mark[nb] !== gen) {
+          this.mark[nb] = gen;
+          stack.push(nb);
+        }
+      }
+    }
+    this.stones[start] = stones;
+    this.libs[start] = libs;
+  }
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { TimeControl } from '../types';
+import { Clock, NO_TIME_CONTROL } from './Clock';
+import { GameFlow } from './GameFlow';
+
+const S = 1000;
+
+const byoyomi: TimeControl = { ...NO_TIME_CONTROL, type: 'byoyomi', mainTime: 10, periods: 3, periodTime: 30 };
+const canadian: TimeControl = { ...NO_TIME_CONTROL, type: 'canadian', mainTime: 5, periodTime: 10, stones: 2 };
+const fischer: TimeControl = { ...NO_TIME_CONTROL, type: 'fischer', mainTime: 10, increment: 5 };
+
+test('byo-yomi spends main time first, then whole periods', () => {
+  const start = Clock.create(byoyomi);
+  assert.deepEqual(Clock.run(start, byoyomi, 15 * S), { clock: { ...start, mainTime: 0, periodTime: 25 * S }, flagged: false });
+  // 一手下在读秒以内，读秒复位
+  const inOvertime = Clock.afterMove(start, byoyomi, 15 * S).clock;
+  assert.deepEqual(inOvertime, { ...start, mainTime: 0, periodTime: 30 * S });
+  // 超出一次读秒即用掉一次
+  const spent = Clock.afterMove(inOvertime, byoyomi, 45 * S);
+  assert.equal(spent.flagged, false);
+  assert.equal(spent.clock.periods, 2);
+  assert.equal(spent.clock.periodTime, 30 * S);
+  assert.equal(Clock.afterMove(spent.clock, byoyomi, 30 * S).clock.periods, 1);
+});
+
+test('byo-yomi flags when the last period runs out', () => {
+  const last = { ...Clock.create(byoyomi), mainTime: 0, periods: 1 };
+  assert.equal(Clock.run(last, byoyomi, 29.9 * S).flagged, false);
+  assert.equal(Clock.run(last, byoyomi, 30 * S).flagged, true);
+  assert.equal(Clock.afterMove(last, byoyomi, 30 * S).flagged, true);
+  assert.equal(Clock.run(Clock.create(byoyomi), byoyomi, 100 * S).flagged, true);
+  assert.equal(Clock.run(Clock.create(byoyomi), byoyomi, 99 * S).flagged, false);
+});
+
+test('canadian overtime resets after the required stones and flags when a period runs out', () => {
+  const start = Clock.create(canadian);
+  const first = Clock.afterMove(start, canadian, 8 * S).clock;
+  assert.deepEqual(first, { ...start, mainTime: 0, periodTime: 7 * S, stones: 1 });
+  const reset = Clock.afterMove(first, canadian, 6 * S).clock;
+  assert.deepEqual(reset, { ...start, mainTime: 0, periodTime: 10 * S, stones: 2 });
+  const second = Clock.afterMove(reset, canadian, 9 * S).clock;
+  assert.equal(second.periodTime, 1 * S);
+  assert.equal(Clock.afterMove(second, canadian, 1 * S).flagged, true);
+  assert.equal(Clock.run(reset, canadian, 10 * S).flagged, true);
+});
+
+test('fischer adds the increment after each move and flags at zero', () => {
+  const start = Clock.create(fischer);
+  const after = Clock.afterMove(start, fischer, 3 * S).clock;
+  assert.equal(after.mainTime, 12 * S);
+  assert.equal(Clock.afterMove(after, fischer, 11 * S).clock.mainTime, 6 * S);
+  assert.equal(Clock.afterMove(after, fischer, 12 * S).flagged, true);
+  assert.equal(Clock.run(after, fischer, 13 * S).flagged, true);
+});
+
+test('committing a move past the last period ends the game on time', () => {
+  const state = Clock.start(GameFlow.create({
+    boardSize: 9, komi: 6.5, ruleSet: 'chinese', scoringMethod: 'area', handicap: 0, handicapMode: 'fixed', timeControl: byoyomi, hostColor: 'black',
+  }), 0);
+  const ok = Clock.commit(state, 'black', 20 * S, 20 * S);
+  assert.equal(ok.result, null);
+  assert.equal(ok.clocks.black.mainTime, 0);
+  assert.equal(ok.turnStartedAt, 20 * S);
+  const flagged = Clock.commit(state, 'black', 100 * S);
+  assert.equal(flagged.gameOver, true);
+  assert.equal(flagged.result?.winner, 'white');
+  assert.equal(flagged.result?.reason, 'time');
+  assert.equal(flagged.clocks.black.periods, 0);
+});
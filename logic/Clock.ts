@@ -0,0 +1,127 @@
+import { ClockState, GameState, PlayerColor, TimeControl } from '../types';
+import { Result } from './Result';
+
+export const NO_TIME_CONTROL: TimeControl = { type: 'none', mainTime: 0, periods: 0, periodTime: 0, stones: 0, increment: 0 };
+
+export const TIME_PRESETS: { label: string; control: TimeControl }[] = [
+  { label: '不限时', control: NO_TIME_CONTROL },
+  { label: '包干 10 分', control: { ...NO_TIME_CONTROL, type: 'absolute', mainTime: 600 } },
+  { label: '10 分 + 3×30 秒', control: { ...NO_TIME_CONTROL, type: 'byoyomi', mainTime: 600, periods: 3, periodTime: 30 } },
+  { label: '10 分 + 5 分/25 手', control: { ...NO_TIME_CONTROL, type: 'canadian', mainTime: 600, periodTime: 300, stones: 25 } },
+  { label: '5 分 + 每手 10 秒', control: { ...NO_TIME_CONTROL, type: 'fischer', mainTime: 300, increment: 10 } },
+];
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const formatTime = (ms: number): string => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+};
+
+/**
+ * 计时规则。每一方只用自己的本地时间算出本手用时，随 MOVE/PASS 消息一并发出，
+ * 对方按同一用时扣减，因此双方时钟的推演结果完全一致。
+ */
+export class Clock {
+  static create(tc: TimeControl): ClockState {
+    return { mainTime: tc.mainTime * 1000, periods: tc.periods, periodTime: tc.periodTime * 1000, stones: tc.stones };
+  }
+
+  static describe(tc: TimeControl): string {
+    const main = `${Math.round(tc.mainTime / 60)} 分`;
+    switch (tc.type) {
+      case 'none': return '不限时';
+      case 'absolute': return `包干 ${main}`;
+      case 'byoyomi': return `${main} + ${tc.periods}×${tc.periodTime} 秒`;
+      case 'canadian': return `${main} + ${Math.round(tc.periodTime / 60)} 分/${tc.stones} 手`;
+      case 'fischer': return `${main} + 每手 ${tc.increment} 秒`;
+    }
+  }
+
+  // 思考 elapsed 毫秒后的钟面；flagged 表示已超时
+  static run(clock: ClockState, tc: TimeControl, elapsed: number): { clock: ClockState; flagged: boolean } {
+    if (tc.type === 'none') return { clock, flagged: false };
+    const used = Math.min(clock.mainTime, Math.max(0, elapsed));
+    const mainTime = clock.mainTime - used;
+    let overtime = Math.max(0, elapsed) - used;
+
+    switch (tc.type) {
+      case 'absolute':
+      case 'fischer':
+        return { clock: { ...clock, mainTime }, flagged: overtime > 0 || mainTime <= 0 };
+      case 'byoyomi': {
+        // 用满一次读秒即消耗一次，最后一次用完判负
+        let periods = clock.periods;
+        let periodTime = clock.periodTime;
+        while (overtime > 0 && periods > 0) {
+          const spent = Math.min(overtime, periodTime);
+          periodTime -= spent;
+          overtime -= spent;
+          if (periodTime <= 0) {
+            periods--;
+            periodTime = tc.periodTime * 1000;
+          }
+        }
+        return { clock: { ...clock, mainTime, periods, periodTime }, flagged: periods === 0 };
+      }
+      case 'canadian': {
+        const periodTime = clock.periodTime - overtime;
+        return { clock: { ...clock, mainTime, periodTime }, flagged: mainTime <= 0 && periodTime <= 0 };
+      }
+    }
+  }
+
+  // 一手下完后结算：读秒复位、加拿大读秒计手、费舍尔加秒
+  static afterMove(clock: ClockState, tc: TimeControl, elapsed: number): { clock: ClockState; flagged: boolean } {
+    const result = this.run(clock, tc, elapsed);
+    if (result.flagged) return result;
+    const next = result.clock;
+    switch (tc.type) {
+      case 'byoyomi':
+        if (next.mainTime <= 0) next.periodTime = tc.periodTime * 1000;
+        break;
+      case 'canadian':
+        if (next.mainTime <= 0 && --next.stones === 0) {
+          next.stones = tc.stones;
+          next.periodTime = tc.periodTime * 1000;
+        }
+        break;
+      case 'fischer':
+        next.mainTime += tc.increment * 1000;
+        break;
+    }
+    return { clock: next, flagged: false };
+  }
+
+  static format(clock: ClockState, tc: TimeControl): string {
+    if (tc.type === 'none') return '--:--';
+    if (clock.mainTime > 0) return formatTime(clock.mainTime);
+    if (tc.type === 'byoyomi') return `读秒 ${Math.ceil(Math.max(0, clock.periodTime) / 1000)} ×${clock.periods}`;
+    if (tc.type === 'canadian') return `${formatTime(clock.periodTime)} / ${clock.stones} 手`;
+    return formatTime(0);
+  }
+
+  // 是否进入需要提醒的紧迫阶段
+  static isLow(clock: ClockState, tc: TimeControl): boolean {
+    if (tc.type === 'none') return false;
+    if (clock.mainTime > 0) return clock.mainTime < 10000 && (tc.type === 'absolute' || tc.type === 'fischer');
+    return tc.type === 'byoyomi' ? clock.periods <= 1 || clock.periodTime < 10000 : clock.periodTime < 30000;
+  }
+
+  static start(state: GameState, now: number = Date.now()): GameState {
+    return { ...state, turnStartedAt: now };
+  }
+
+  // 按本手用时给刚落子的一方扣时；超时则直接结束对局
+  static commit(state: GameState, player: PlayerColor, elapsed: number, now: number = Date.now()): GameState {
+    if (state.timeControl.type === 'none') return { ...state, turnStartedAt: now };
+    const { clock, flagged } = this.afterMove(state.clocks[player], state.timeControl, elapsed);
+    if (flagged) return this.flag(state, player);
+    return { ...state, clocks: { ...state.clocks, [player]: clock }, turnStartedAt: now };
+  }
+
+  static flag(state: GameState, player: PlayerColor): GameState {
+    const clock = this.run(state.clocks[player], state.timeControl, Infinity).clock;
+    return Result.finish({ ...state, clocks: { ...state.clocks, [player]: clock } }, player === 'black' ? 'white' : 'black', 'time');
+  }
+}
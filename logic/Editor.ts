@@ -0,0 +1,69 @@
+import { BoardSetup, BoardState, GameState, PlayerColor, Point } from '../types';
+import { GoRules } from './GoRules';
+import { Sgf } from './Sgf';
+
+export type EditorTool = PlayerColor | 'erase';
+
+export interface EditorState {
+  board: BoardState;
+  player: PlayerColor;
+  captured: { black: number; white: number };
+}
+
+/**
+ * 摆棋：不经落子规则，任意摆放或拿掉棋子。每次编辑都生成新的棋盘数组，
+ * 不在原棋盘上改动（引擎缓存以棋盘对象为键）。
+ */
+export class Editor {
+  static fromState(state: GameState): EditorState {
+    return { board: state.board, player: state.currentPlayer, captured: { ...state.captured } };
+  }
+
+  static empty(size: number): EditorState {
+    return { board: GoRules.createBoard(size), player: 'black', captured: { black: 0, white: 0 } };
+  }
+
+  // 用同色再点一次即拿掉
+  static apply(editor: EditorState, p: Point, tool: EditorTool): EditorState {
+    const current = editor.board[p.y][p.x];
+    const next = tool === 'erase' || current === tool ? null : tool;
+    if (next === current) return editor;
+    const board = editor.board.map((row, y) => y === p.y ? row.map((cell, x) => x === p.x ? next : cell) : row);
+    return { ...editor, board };
+  }
+
+  // 没有气的棋块：摆成这样的局面不能开始对局
+  static invalidStones(board: BoardState): Point[] {
+    const seen = new Set<string>();
+    const invalid: Point[] = [];
+    board.forEach((row, y) => row.forEach((cell, x) => {
+      if (!cell || seen.has(`${x},${y}`)) return;
+      const group = GoRules.getGroup(board, { x, y });
+      group.stones.forEach(s => seen.add(`${s.x},${s.y}`));
+      if (group.liberties.size === 0) invalid.push(...group.stones);
+    }));
+    return invalid;
+  }
+
+  // 读取 SGF 根节点的 AB/AW/PL，着手一概不管
+  static fromSgf(text: string): EditorState {
+    const game = Sgf.load(text);
+    const size = game.settings.boardSize;
+    const board = GoRules.createBoard(size);
+    const black = game.setup?.black ?? game.handicapStones;
+    black.forEach(p => { board[p.y][p.x] = 'black'; });
+    game.setup?.white.forEach(p => { board[p.y][p.x] = 'white'; });
+    const player = game.setup?.player ?? (black.length > 0 ? 'white' : 'black');
+    return { board, player, captured: { black: 0, white: 0 } };
+  }
+
+  static toSetup(editor: EditorState): BoardSetup {
+    const black: Point[] = [];
+    const white: Point[] = [];
+    editor.board.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell === 'black') black.push({ x, y });
+      else if (cell === 'white') white.push({ x, y });
+    }));
+    return { black, white, player: editor.player, captured: { ...editor.captured } };
+  }
+}
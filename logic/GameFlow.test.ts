@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { GameSettings, GameState, Point, RuleSet } from '../types';
+import { NO_TIME_CONTROL } from './Clock';
+import { GameFlow } from './GameFlow';
+
+const settings = (ruleSet: RuleSet): GameSettings => ({
+  boardSize: 9, komi: 6.5, ruleSet, scoringMethod: 'area', handicap: 0, handicapMode: 'fixed',
+  timeControl: NO_TIME_CONTROL, hostColor: 'black',
+});
+
+// 左上角的劫：黑在 (2,1) 提掉 (1,1) 的白子后，白立即提回即为同形
+const koPosition = (ruleSet: RuleSet): GameState => GameFlow.fromSetup(settings(ruleSet), {
+  black: [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 2 }],
+  white: [{ x: 2, y: 0 }, { x: 3, y: 1 }, { x: 2, y: 2 }, { x: 1, y: 1 }],
+  player: 'black',
+  captured: { black: 0, white: 0 },
+});
+
+const play = (state: GameState, p: Point) => GameFlow.playMove(state, p);
+
+const resume = (state: GameState): GameState => ({ ...state, isScoring: false, passCount: 0 });
+
+test('the ko can be retaken after both players pass and play resumes', () => {
+  const taken = play(koPosition('japanese'), { x: 2, y: 1 }).state!;
+  assert.equal(play(taken, { x: 1, y: 1 }).valid, false);
+  const passed = GameFlow.pass(GameFlow.pass(taken));
+  assert.ok(passed.isScoring);
+  const retaken = play(resume(passed), { x: 1, y: 1 });
+  assert.ok(retaken.valid);
+  assert.equal(retaken.state!.board[1][2], null);
+});
+
+test('positional superko still forbids the retake after passes', () => {
+  const taken = play(koPosition('chinese'), { x: 2, y: 1 }).state!;
+  assert.equal(play(resume(GameFlow.pass(GameFlow.pass(taken))), { x: 1, y: 1 }).valid, false);
+});
+
+test('passes are kept in the history and undone with the move before them', () => {
+  const start = koPosition('japanese');
+  const taken = play(start, { x: 2, y: 1 }).state!;
+  const passed = GameFlow.pass(taken);
+  assert.equal(passed.history.length, passed.moves.length);
+  const undone = GameFlow.undo(passed);
+  assert.deepEqual(undone.board, start.board);
+  assert.equal(undone.currentPlayer, 'black');
+  assert.deepEqual(undone.moves, []);
+  assert.deepEqual(undone.history, []);
+  assert.equal(GameFlow.canUndo(GameFlow.pass(start)), false);
+  assert.equal(GameFlow.undo(GameFlow.pass(start)).moves.length, 1);
+});
@@ -0,0 +1,185 @@
+import { BoardSetup, GameMove, GameSettings, GameState, HistoryEntry, PlayerColor, Point } from '../types';
+import { Clock } from './Clock';
+import { Result } from './Result';
+import { GoRules, RULE_SETS } from './GoRules';
+
+export class GameFlow {
+  // 传入 handicapStones 时按给定位置摆放（如棋谱导入），否则按设置生成；有摆棋局面时以其为准
+  static create(settings: GameSettings, handicapStones?: Point[], setup?: BoardSetup | null): GameState {
+    if (setup) return this.fromSetup(settings, setup);
+    const board = GoRules.createBoard(settings.boardSize);
+    // 让子数超出棋盘能摆的星位时按能摆的算，自由让子也不例外，电脑摆子用的是同一组星位
+    const starPoints = GoRules.getHandicapPoints(settings.boardSize, settings.handicap);
+    const handicap = starPoints.length;
+    const isFixedHandicap = handicapStones ? handicapStones.length > 0 : handicap > 0 && settings.handicapMode === 'fixed';
+    const stones = handicapStones ?? (isFixedHandicap ? starPoints : []);
+    stones.forEach(p => { board[p.y][p.x] = 'black'; });
+
+    return {
+      board,
+      currentPlayer: isFixedHandicap ? 'white' : 'black',
+      captured: { black: 0, white: 0 },
+      history: [],
+      moves: [],
+      passCount: 0,
+      gameOver: false,
+      result: null,
+      lastMove: null,
+      komi: settings.komi,
+      ruleSet: settings.ruleSet,
+      scoringMethod: settings.scoringMethod,
+      handicap: handicapStones ? handicapStones.length : handicap,
+      handicapStones: stones,
+      handicapToPlace: !handicapStones && handicap > 0 && !isFixedHandicap ? handicap : 0,
+      score: null,
+      isScoring: false,
+      deadStones: [],
+      scoreAccepted: { black: false, white: false },
+      timeControl: settings.timeControl,
+      clocks: { black: Clock.create(settings.timeControl), white: Clock.create(settings.timeControl) },
+      turnStartedAt: null,
+    };
+  }
+
+  // 不计让子，行棋方与提子数按摆棋时的设定
+  static fromSetup(settings: GameSettings, setup: BoardSetup): GameState {
+    const board = GoRules.createBoard(settings.boardSize);
+    setup.black.forEach(p => { board[p.y][p.x] = 'black'; });
+    setup.white.forEach(p => { board[p.y][p.x] = 'white'; });
+    return { ...this.create(settings, []), board, currentPlayer: setup.player, captured: { ...setup.captured }, setup };
+  }
+
+  static playMove(state: GameState, p: Point): { valid: boolean; error?: string; state?: GameState } {
+    // 自由让子：黑方连续摆放，不计入棋谱
+    if (state.handicapToPlace > 0) {
+      if (state.board[p.y][p.x] !== null) return { valid: false, error: 'Point is occupied' };
+      const board = state.board.map(row => [...row]);
+      board[p.y][p.x] = 'black';
+      const handicapToPlace = state.handicapToPlace - 1;
+      return {
+        valid: true,
+        state: {
+          ...state,
+          board,
+          handicapToPlace,
+          handicapStones: [...state.handicapStones, p],
+          currentPlayer: handicapToPlace === 0 ? 'white' : 'black',
+          lastMove: p,
+        },
+      };
+    }
+
+    const validation = GoRules.isValidMove(state.board, p, state.currentPlayer, state.history, RULE_SETS[state.ruleSet]);
+    if (!validation.valid || !validation.newBoard) return { valid: false, error: validation.error };
+
+    const opponent = state.currentPlayer === 'black' ? 'white' : 'black';
+    // 自杀提走的己方棋子记为对方的提子
+    const captured = { ...state.captured };
+    captured[state.currentPlayer] += validation.captured || 0;
+    captured[opponent] += validation.selfCaptured || 0;
+    return {
+      valid: true,
+      state: {
+        ...state,
+        board: validation.newBoard,
+        currentPlayer: opponent,
+        captured,
+        history: [...state.history, this.snapshot(state)],
+        moves: [...state.moves, { player: state.currentPlayer, point: p }],
+        passCount: 0,
+        lastMove: p,
+      },
+    };
+  }
+
+  // 着手前的局面，跳过也记一笔：劫在跳过之后可以提回，同形再现时也分得清轮到谁
+  private static snapshot(state: GameState): HistoryEntry {
+    return {
+      board: state.board,
+      hash: GoRules.hash(state.board),
+      captured: { ...state.captured },
+      lastMove: state.lastMove,
+      player: state.currentPlayer,
+    };
+  }
+
+  // 连续两次跳过进入数子阶段
+  static pass(state: GameState): GameState {
+    const passCount = state.passCount + 1;
+    const isScoring = passCount >= 2;
+    return {
+      ...state,
+      currentPlayer: state.currentPlayer === 'black' ? 'white' : 'black',
+      history: [...state.history, this.snapshot(state)],
+      moves: [...state.moves, { player: state.currentPlayer, point: null }],
+      passCount,
+      isScoring,
+      deadStones: [],
+      scoreAccepted: { black: false, white: false },
+      lastMove: null
+    };
+  }
+
+  // 逐手复盘并用规则校验，非法着手直接报错；着手自带行棋方，棋谱里同一方连下也照样复盘
+  static replay(settings: GameSettings, handicapStones: Point[], moves: GameMove[], setup?: BoardSetup | null): GameState {
+    let state = this.create(settings, handicapStones, setup);
+    moves.forEach((move, i) => {
+      state = { ...state, currentPlayer: move.player };
+      if (!move.point) {
+        state = { ...this.pass(state), isScoring: false };
+        return;
+      }
+      const result = this.playMove(state, move.point);
+      if (!result.valid || !result.state) throw new Error(`第 ${i + 1} 手不合法：${result.error}`);
+      state = result.state;
+    });
+    return state;
+  }
+
+  // 联机同步的局面不带历史局面，按开局与着手重放补回；着手复不出这个局面时返回 null
+  static restoreHistory(state: GameState): GameState | null {
+    const settings: GameSettings = {
+      boardSize: state.board.length,
+      komi: state.komi,
+      ruleSet: state.ruleSet,
+      scoringMethod: state.scoringMethod,
+      handicap: state.handicapStones.length,
+      handicapMode: 'free',
+      timeControl: state.timeControl,
+      hostColor: 'black',
+    };
+    try {
+      const replayed = this.replay(settings, state.handicapStones, state.moves, state.setup);
+      return GoRules.hash(replayed.board) === GoRules.hash(state.board) ? { ...state, history: replayed.history } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  static resign(state: GameState, player: PlayerColor): GameState {
+    return Result.finish(state, player === 'black' ? 'white' : 'black', 'resign');
+  }
+
+  static canUndo(state: GameState): boolean {
+    return state.moves.some(m => m.point !== null);
+  }
+
+  // 悔回最后一手落子，其后的跳过一并撤销；历史与着手一一对应
+  static undo(state: GameState): GameState {
+    let moveCount = state.moves.length;
+    while (moveCount > 0 && state.moves[moveCount - 1].point === null) moveCount--;
+    const kept = state.history.length - (state.moves.length - moveCount) - 1;
+    if (moveCount === 0 || kept < 0) return state;
+    const last = state.history[kept];
+    return {
+      ...state,
+      board: last.board,
+      captured: last.captured,
+      currentPlayer: last.player,
+      lastMove: last.lastMove,
+      history: state.history.slice(0, kept),
+      moves: state.moves.slice(0, moveCount - 1),
+      passCount: 0,
+    };
+  }
+}
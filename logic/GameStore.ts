@@ -0,0 +1,92 @@
+import { ChatMessage, GameSettings, GameState, PlayerColor } from '../types';
+import { AiLevel } from './Ai';
+
+export type GameMode = 'local' | 'ai' | 'online';
+
+// 联机对局的会话信息，刷新后据此回到原会话
+export interface StoredSession {
+  id: string;
+  role: 'host' | 'guest';
+  peer: string;   // 客人记主机 ID，主机记对手 ID
+  outSeq: number;
+  inSeq: number;
+}
+
+export interface SavedGame {
+  id: string;
+  date: string;       // ISO 时间，最后一次保存
+  mode: GameMode;
+  opponent: string;   // 供棋谱库展示
+  myColor: PlayerColor | 'spectator';
+  aiColor: PlayerColor | null;
+  aiLevel: AiLevel;
+  settings: GameSettings;
+  state: GameState;
+  chatLog: ChatMessage[];
+  session: StoredSession | null;
+}
+
+const DB_NAME = 'weiqi';
+const DB_VERSION = 1;
+const CURRENT = 'current';  // 只存一条：进行中的对局
+const LIBRARY = 'library';  // 已结束的对局，按 id 存
+const CURRENT_KEY = 'game';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CURRENT)) db.createObjectStore(CURRENT);
+      if (!db.objectStoreNames.contains(LIBRARY)) db.createObjectStore(LIBRARY, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 基于 IndexedDB 的本地对局存储：进行中的对局每步自动保存，终局后归入棋谱库。
+ */
+export class GameStore {
+  static async saveCurrent(game: SavedGame): Promise<void> {
+    await run(CURRENT, 'readwrite', s => s.put(game, CURRENT_KEY));
+  }
+
+  static async loadCurrent(): Promise<SavedGame | null> {
+    return (await run<SavedGame | undefined>(CURRENT, 'readonly', s => s.get(CURRENT_KEY))) ?? null;
+  }
+
+  static async clearCurrent(): Promise<void> {
+    await run(CURRENT, 'readwrite', s => s.delete(CURRENT_KEY));
+  }
+
+  static async archive(game: SavedGame): Promise<void> {
+    await run(LIBRARY, 'readwrite', s => s.put(game));
+  }
+
+  // 新的在前
+  static async list(): Promise<SavedGame[]> {
+    const games = await run<SavedGame[]>(LIBRARY, 'readonly', s => s.getAll());
+    return games.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  static async remove(id: string): Promise<void> {
+    await run(LIBRARY, 'readwrite', s => s.delete(id));
+  }
+}
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { GameSettings } from '../types';
+import { NO_TIME_CONTROL } from './Clock';
+import { GameFlow } from './GameFlow';
+import { GoRules } from './GoRules';
+
+const settings = (boardSize: number, handicap: number, handicapMode: GameSettings['handicapMode'] = 'fixed'): GameSettings => ({
+  boardSize, komi: 0.5, ruleSet: 'chinese', scoringMethod: 'area', handicap, handicapMode, timeControl: NO_TIME_CONTROL, hostColor: 'black',
+});
+
+test('handicap points are distinct integer points on the board', () => {
+  for (let size = 2; size <= 25; size++) {
+    for (let count = 0; count <= 9; count++) {
+      const points = GoRules.getHandicapPoints(size, count);
+      assert.ok(points.length <= GoRules.maxHandicap(size));
+      assert.ok(points.every(p => Number.isInteger(p.x) && Number.isInteger(p.y) && p.x >= 0 && p.y >= 0 && p.x < size && p.y < size));
+      assert.equal(new Set(points.map(p => `${p.x},${p.y}`)).size, points.length);
+    }
+  }
+});
+
+test('handicap is clamped to what the board can hold', () => {
+  assert.equal(GoRules.maxHandicap(19), 9);
+  assert.equal(GoRules.maxHandicap(10), 4);
+  assert.equal(GoRules.maxHandicap(5), 0);
+
+  const even = GameFlow.create(settings(10, 5));
+  assert.equal(even.handicap, 4);
+  assert.equal(even.board.flat().filter(c => c === 'black').length, 4);
+
+  const tiny = GameFlow.create(settings(5, 3, 'free'));
+  assert.equal(tiny.handicap, 0);
+  assert.equal(tiny.handicapToPlace, 0);
+  assert.equal(tiny.currentPlayer, 'black');
+});
+
+test('fixed handicap on the standard boards is unchanged', () => {
+  const state = GameFlow.create(settings(19, 9));
+  assert.equal(state.handicap, 9);
+  assert.equal(state.board[9][9], 'black');
+  assert.equal(state.currentPlayer, 'white');
+});
+
+const empty9 = GoRules.createBoard(9);
+const center = { x: 4, y: 4 };
+// 黑下天元之后的局面，作为“之前出现过”的局面放进历史
+const repeated = GoRules.isValidMove(empty9, center, 'black', []).hash!;
+
+test('positional superko forbids any earlier position', () => {
+  const rules = { ko: 'positional', suicide: false } as const;
+  assert.equal(GoRules.isValidMove(empty9, center, 'black', [{ hash: repeated, player: 'black' }], rules).valid, false);
+  assert.equal(GoRules.isValidMove(empty9, center, 'black', [{ hash: repeated, player: 'white' }, { hash: 1, player: 'black' }], rules).valid, false);
+  assert.ok(GoRules.isValidMove(empty9, center, 'black', [{ hash: 1, player: 'black' }], rules).valid);
+});
+
+test('situational superko only forbids an earlier position with the same player to move', () => {
+  const rules = { ko: 'situational', suicide: false } as const;
+  // 当时轮到黑走，落子后轮到白走，不算同一情形
+  assert.ok(GoRules.isValidMove(empty9, center, 'black', [{ hash: repeated, player: 'black' }], rules).valid);
+  assert.equal(GoRules.isValidMove(empty9, center, 'black', [{ hash: repeated, player: 'white' }, { hash: 1, player: 'black' }], rules).valid, false);
+});
+
+test('simple ko only looks at the position before the last move', () => {
+  const rules = { ko: 'simple', suicide: false } as const;
+  assert.ok(GoRules.isValidMove(empty9, center, 'black', [{ hash: repeated, player: 'white' }, { hash: 1, player: 'black' }], rules).valid);
+  assert.equal(GoRules.isValidMove(empty9, center, 'black', [{ hash: 1, player: 'black' }, { hash: repeated, player: 'white' }], rules).valid, false);
+});
+
+test('multi-stone suicide follows the rule set, single-stone suicide never plays', () => {
+  const board = GoRules.createBoard(5);
+  board[0][1] = 'black';
+  board[0][0] = 'white';
+  board[1][1] = 'black';
+  board[2][0] = 'black';
+  const suicide = { x: 0, y: 1 };
+  assert.equal(GoRules.isValidMove(board, suicide, 'white', [], { ko: 'simple', suicide: false }).valid, false);
+  const allowed = GoRules.isValidMove(board, suicide, 'white', [], { ko: 'simple', suicide: true });
+  assert.ok(allowed.valid);
+  assert.equal(allowed.selfCaptured, 2);
+  assert.equal(allowed.newBoard![0][0], null);
+
+  const corner = GoRules.createBoard(5);
+  corner[0][1] = 'black';
+  corner[1][0] = 'black';
+  assert.equal(GoRules.isValidMove(corner, { x: 0, y: 0 }, 'white', [], { ko: 'simple', suicide: true }).valid, false);
+});
@@ -1,90 +1,139 @@
 
-import { BoardState, PlayerColor, Point } from '../types';
+import { BoardState, HistoryEntry, PlayerColor, Point, RuleOptions, RuleSet } from '../types';
+import { Board, colorCode } from './Board';
 
-export const BOARD_SIZE = 19;
+export const BOARD_SIZES = [9, 13, 19];
+export const DEFAULT_BOARD_SIZE = 19;
+
+export const RULE_SETS: Record<RuleSet, RuleOptions & { label: string }> = {
+  chinese: { label: '中国', ko: 'positional', suicide: false, scoringMethod: 'area', komi: 7.5 },
+  japanese: { label: '日本', ko: 'simple', suicide: false, scoringMethod: 'territory', komi: 6.5 },
+  aga: { label: 'AGA', ko: 'situational', suicide: false, scoringMethod: 'area', komi: 7.5 },
+  nz: { label: '新西兰', ko: 'situational', suicide: true, scoringMethod: 'area', komi: 7 },
+  'tromp-taylor': { label: 'Tromp-Taylor', ko: 'positional', suicide: true, scoringMethod: 'area', komi: 7.5 },
+};
 
 export class GoRules {
-  static getAdjacent(p: Point): Point[] {
+  static createBoard(size: number): BoardState {
+    return Array(size).fill(null).map(() => Array(size).fill(null));
+  }
+
+  // 星位：9 路为 2/4/6，13 路为 3/6/9，19 路为 3/9/15；小棋盘只有四角与天元
+  static getStarPoints(size: number): Point[] {
+    const edge = size >= 13 ? 3 : 2;
+    const far = size - 1 - edge;
+    const mid = (size - 1) / 2;
+    const lines = size >= 19 ? [edge, mid, far] : [edge, far];
+    const points = lines.flatMap(y => lines.map(x => ({ x, y })));
+    if (size < 19 && size % 2 === 1) points.push({ x: mid, y: mid });
+    return points;
+  }
+
+  // 让子固定摆放：对角 → 四角 → 天元 → 边星
+  // 星位让子最多能摆几子：太小的棋盘没有星位，偶数路没有天元与边星，只有四角
+  static maxHandicap(size: number): number {
+    if (size < 7) return 0;
+    return size % 2 === 0 ? 4 : 9;
+  }
+
+  // 超出棋盘能摆的子数时只给能摆的那些
+  static getHandicapPoints(size: number, count: number): Point[] {
+    count = Math.min(count, this.maxHandicap(size));
+    if (count < 2) return [];
+    const edge = size >= 13 ? 3 : 2;
+    const far = size - 1 - edge;
+    const mid = (size - 1) / 2;
+    const corners = [{ x: far, y: edge }, { x: edge, y: far }, { x: far, y: far }, { x: edge, y: edge }];
+    const sidesLR = [{ x: edge, y: mid }, { x: far, y: mid }];
+    const sidesTB = [{ x: mid, y: edge }, { x: mid, y: far }];
+    const center = { x: mid, y: mid };
+
+    const points = corners.slice(0, Math.min(count, 4));
+    if (count >= 6) points.push(...sidesLR);
+    if (count >= 8) points.push(...sidesTB);
+    if (count % 2 === 1 && count >= 5) points.push(center);
+    return points;
+  }
+
+  static getAdjacent(p: Point, size: number): Point[] {
     const adj = [];
     if (p.x > 0) adj.push({ x: p.x - 1, y: p.y });
-    if (p.x < BOARD_SIZE - 1) adj.push({ x: p.x + 1, y: p.y });
+    if (p.x < size - 1) adj.push({ x: p.x + 1, y: p.y });
     if (p.y > 0) adj.push({ x: p.x, y: p.y - 1 });
-    if (p.y < BOARD_SIZE - 1) adj.push({ x: p.x, y: p.y + 1 });
+    if (p.y < size - 1) adj.push({ x: p.x, y: p.y + 1 });
     return adj;
   }
 
-  static getGroup(board: BoardState, p: Point): { stones: Point[]; liberties: Set<string> } {
-    const color = board[p.y][p.x];
-    if (!color) return { stones: [], liberties: new Set() };
-
-    const stones: Point[] = [];
-    const liberties = new Set<string>();
-    const visited = new Set<string>();
-    const stack: Point[] = [p];
-
-    while (stack.length > 0) {
-      const current = stack.pop()!;
-      const key = `${current.x},${current.y}`;
-      if (visited.has(key)) continue;
-      visited.add(key);
-      stones.push(current);
-
-      for (const adj of this.getAdjacent(current)) {
-        const adjColor = board[adj.y][adj.x];
-        if (adjColor === null) {
-          liberties.add(`${adj.x},${adj.y}`);
-        } else if (adjColor === color) {
-          stack.push(adj);
-        }
-      }
+  // 引擎按棋盘对象缓存；棋盘数组从不原地修改，因此缓存始终有效
+  private static engines = new WeakMap<BoardState, Board>();
+  static engine(board: BoardState): Board {
+    let engine = this.engines.get(board);
+    if (!engine) {
+      engine = Board.fromState(board);
+      this.engines.set(board, engine);
     }
-
-    return { stones, liberties };
+    return engine;
   }
 
-  static checkCaptures(board: BoardState, lastMove: Point, player: PlayerColor): { newBoard: BoardState; capturedCount: number } {
-    const opponent = player === 'black' ? 'white' : 'black';
-    let newBoard = board.map(row => [...row]);
-    let totalCaptured = 0;
-
-    // Check opponent groups first
-    for (const adj of this.getAdjacent(lastMove)) {
-      if (newBoard[adj.y][adj.x] === opponent) {
-        const group = this.getGroup(newBoard, adj);
-        if (group.liberties.size === 0) {
-          totalCaptured += group.stones.length;
-          group.stones.forEach(s => {
-            newBoard[s.y][s.x] = null;
-          });
-        }
-      }
-    }
+  static hash(board: BoardState): number {
+    return this.engine(board).hash;
+  }
 
-    return { newBoard, capturedCount: totalCaptured };
+  static getGroup(board: BoardState, p: Point): { stones: Point[]; liberties: Set<string> } {
+    const engine = this.engine(board);
+    const i = engine.index(p);
+    const stones = engine.chainStones(i).map(s => engine.point(s));
+    const liberties = new Set(engine.chainLiberties(i).map(l => `${l % engine.size},${Math.floor(l / engine.size)}`));
+    return { stones, liberties };
   }
 
-  static isValidMove(board: BoardState, p: Point, player: PlayerColor, history: string[]): { valid: boolean; error?: string; newBoard?: BoardState; captured?: number } {
+  // history 为此前每一手（含跳过）之前的局面及当时的行棋方
+  static isValidMove(
+    board: BoardState,
+    p: Point,
+    player: PlayerColor,
+    history: Pick<HistoryEntry, 'hash' | 'player'>[],
+    rules: Pick<RuleOptions, 'ko' | 'suicide'> = { ko: 'simple', suicide: false },
+  ): { valid: boolean; error?: string; newBoard?: BoardState; captured?: number; selfCaptured?: number; hash?: number } {
     if (board[p.y][p.x] !== null) return { valid: false, error: 'Point is occupied' };
 
-    // 1. Try placing the stone
-    const tempBoard = board.map(row => [...row]);
-    tempBoard[p.y][p.x] = player;
+    // 1. Place the stone and resolve captures on a copy of the engine
+    const parent = this.engine(board);
+    const engine = parent.clone();
+    const i = engine.index(p);
+    const captured = engine.play(i, colorCode(player), rules.suicide);
 
-    // 2. Check for opponent captures
-    const { newBoard, capturedCount } = this.checkCaptures(tempBoard, p, player);
+    // 2. Check for self-capture (suicide); single-stone suicide is never allowed
+    if (!captured) return { valid: false, error: 'Suicide move is illegal' };
+    const suicide = captured.includes(i);
+    if (suicide && captured.length === 1) return { valid: false, error: 'Suicide move is illegal' };
+    const hash = engine.hash;
 
-    // 3. Check for self-capture (suicide)
-    const ownGroup = this.getGroup(newBoard, p);
-    if (ownGroup.liberties.size === 0) {
-      return { valid: false, error: 'Suicide move is illegal' };
-    }
-
-    // 4. Check Ko rule
-    const boardHash = JSON.stringify(newBoard);
-    if (history.length > 0 && history[history.length - 1] === boardHash) {
+    // 3. Check Ko rule
+    const opponent = player === 'black' ? 'white' : 'black';
+    if (rules.ko === 'simple' && history.length > 0 && history[history.length - 1].hash === hash) {
       return { valid: false, error: 'Ko rule: move repeats previous board state' };
     }
+    if (rules.ko === 'positional' && (hash === parent.hash || history.some(h => h.hash === hash))) {
+      return { valid: false, error: 'Superko: move repeats an earlier position' };
+    }
+    if (rules.ko === 'situational' && history.some(h => h.player === opponent && h.hash === hash)) {
+      return { valid: false, error: 'Superko: move repeats an earlier position with the same player to move' };
+    }
 
-    return { valid: true, newBoard, captured: capturedCount };
+    // 4. Build the new board, copying only the rows that changed
+    const newBoard = board.slice();
+    const touch = (x: number, y: number, color: PlayerColor | null) => {
+      if (newBoard[y] === board[y]) newBoard[y] = [...board[y]];
+      newBoard[y][x] = color;
+    };
+    touch(p.x, p.y, player);
+    captured.forEach(c => touch(c % engine.size, Math.floor(c / engine.size), null));
+    // 新棋盘直接沿用落子后的引擎，后续着手无需重建
+    this.engines.set(newBoard, engine);
+
+    return suicide
+      ? { valid: true, newBoard, captured: 0, selfCaptured: captured.length, hash }
+      : { valid: true, newBoard, captured: captured.length, selfCaptured: 0, hash };
   }
 }
@@ -0,0 +1,65 @@
+import { PlayerColor, Point } from '../types';
+import { AiAction } from './Ai';
+import { Notation } from './Notation';
+
+export interface GtpCommand {
+  id: number | null;
+  name: string;
+  args: string[];
+}
+
+export interface GtpResponse {
+  ok: boolean;
+  text: string;
+}
+
+/**
+ * GTP 第 2 版的文本格式：命令一行一条，可带数字编号；应答以 = 或 ? 开头、以空行结束。
+ * 坐标与棋谱记法相同（列无 I，行从下往上数）。
+ */
+export class Gtp {
+  // 去掉控制字符与 # 注释，空行返回 null
+  static parseCommand(line: string): GtpCommand | null {
+    const clean = line.replace(/#.*$/, '').replace(/\t/g, ' ').replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '').trim();
+    if (!clean) return null;
+    const words = clean.split(/\s+/);
+    const id = /^\d+$/.test(words[0]) ? Number(words.shift()) : null;
+    if (words.length === 0) return null;
+    return { id, name: words[0].toLowerCase(), args: words.slice(1) };
+  }
+
+  static formatResponse(id: number | null, response: GtpResponse): string {
+    return `${response.ok ? '=' : '?'}${id ?? ''}${response.text ? ` ${response.text}` : ''}\n\n`;
+  }
+
+  // 应答首行的 =/? 与编号之后才是正文
+  static parseResponse(lines: string[]): GtpResponse {
+    const first = lines[0] ?? '';
+    const text = [first.replace(/^[=?]\d*\s?/, ''), ...lines.slice(1)].join('\n').trim();
+    return { ok: first.startsWith('='), text };
+  }
+
+  static color(player: PlayerColor): string {
+    return player === 'black' ? 'B' : 'W';
+  }
+
+  static parseColor(text: string): PlayerColor | null {
+    const c = text.toLowerCase();
+    if (c === 'b' || c === 'black') return 'black';
+    if (c === 'w' || c === 'white') return 'white';
+    return null;
+  }
+
+  static vertex(p: Point | null, size: number): string {
+    return p ? Notation.point(p, size) : 'pass';
+  }
+
+  // genmove 的应答也可能是 resign；认不出的坐标返回 null
+  static parseVertex(text: string, size: number): AiAction | null {
+    const v = text.trim().toLowerCase();
+    if (v === 'pass') return { type: 'pass' };
+    if (v === 'resign') return { type: 'resign' };
+    const point = Notation.parse(v, size);
+    return point ? { type: 'move', point } : null;
+  }
+}
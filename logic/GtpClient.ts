@@ -0,0 +1,131 @@
+import { GameMove, GameState, PlayerColor, Point } from '../types';
+import { AiAction } from './Ai';
+import { Gtp, GtpResponse } from './Gtp';
+
+// 与引擎之间的文本通道；收到的数据不必按行切好
+export interface GtpChannel {
+  send(text: string): void;
+  onData(handler: (text: string) => void): void;
+  onClose(handler: () => void): void;
+  close(): void;
+}
+
+interface Pending {
+  resolve: (text: string) => void;
+  reject: (err: Error) => void;
+}
+
+const sameMove = (a: GameMove, b: GameMove) =>
+  a.player === b.player && a.point?.x === b.point?.x && a.point?.y === b.point?.y;
+
+const stonesKey = (state: GameState) => JSON.stringify([state.board.length, state.komi, state.handicapStones, state.setup ?? null]);
+
+/**
+ * GTP 客户端：把引擎当作对手驱动。命令依次发出，应答按顺序对应。
+ * 引擎的局面靠比对着手列表与本方同步，悔棋、重下都只需在走子前调用 sync。
+ */
+export class GtpClient {
+  private buffer = '';
+  private lines: string[] = [];
+  private pending: Pending[] = [];
+  private closed = false;
+  private base: string | null = null;   // 引擎当前的棋盘、贴目与初始摆子
+  private moves: GameMove[] = [];       // 引擎已知的着手
+
+  constructor(private readonly channel: GtpChannel) {
+    channel.onData(text => this.receive(text));
+    channel.onClose(() => {
+      this.closed = true;
+      this.pending.splice(0).forEach(p => p.reject(new Error('引擎连接已断开')));
+    });
+  }
+
+  private receive(text: string): void {
+    this.buffer += text.replace(/\r/g, '');
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 1);
+      if (line.trim() === '') {
+        if (this.lines.length > 0) this.settle(Gtp.parseResponse(this.lines.splice(0)));
+      } else if (this.lines.length > 0 || /^[=?]/.test(line)) {
+        this.lines.push(line);
+      }
+    }
+  }
+
+  private settle(response: GtpResponse): void {
+    const next = this.pending.shift();
+    if (!next) return;
+    if (response.ok) next.resolve(response.text);
+    else next.reject(new Error(response.text || 'GTP 命令失败'));
+  }
+
+  command(name: string, ...args: (string | number)[]): Promise<string> {
+    if (this.closed) return Promise.reject(new Error('引擎连接已断开'));
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.channel.send(`${[name, ...args].join(' ')}\n`);
+    });
+  }
+
+  private play(player: PlayerColor, point: Point | null, size: number): Promise<string> {
+    return this.command('play', Gtp.color(player), Gtp.vertex(point, size));
+  }
+
+  // 让引擎的局面与 state 一致：尽量用 undo 退回分歧点，不支持时整盘重放
+  async sync(state: GameState): Promise<void> {
+    const size = state.board.length;
+    const key = stonesKey(state);
+    let common = 0;
+    if (this.base === key) {
+      while (common < this.moves.length && common < state.moves.length && sameMove(this.moves[common], state.moves[common])) common++;
+      try {
+        while (this.moves.length > common) {
+          await this.command('undo');
+          this.moves.pop();
+        }
+      } catch {
+        this.base = null;
+      }
+    }
+    if (this.base !== key) {
+      common = 0;
+      this.moves = [];
+      await this.command('boardsize', size);
+      await this.command('clear_board');
+      await this.command('komi', state.komi);
+      const setup = state.setup;
+      const stones = setup
+        ? [...setup.black.map(point => ({ player: 'black' as const, point })), ...setup.white.map(point => ({ player: 'white' as const, point }))]
+        : state.handicapStones.map(point => ({ player: 'black' as const, point }));
+      for (const stone of stones) await this.play(stone.player, stone.point, size);
+      this.base = key;
+    }
+    for (const move of state.moves.slice(common)) {
+      await this.play(move.player, move.point, size);
+      this.moves.push(move);
+    }
+  }
+
+  async genmove(state: GameState, player: PlayerColor): Promise<AiAction> {
+    await this.sync(state);
+    const text = await this.command('genmove', Gtp.color(player));
+    const action = Gtp.parseVertex(text, state.board.length);
+    if (!action) throw new Error(`引擎返回了无法识别的着手：${text}`);
+    if (action.type !== 'resign') this.moves.push({ player, point: action.type === 'move' ? action.point : null });
+    return action;
+  }
+
+  // 引擎自己的终局判断，如 B+3.5
+  async finalScore(state: GameState): Promise<string> {
+    await this.sync(state);
+    return this.command('final_score');
+  }
+
+  close(): void {
+    if (!this.closed) this.command('quit').catch(() => {});
+    this.closed = true;
+    this.channel.close();
+  }
+}
@@ -0,0 +1,205 @@
+import { GameSettings, GameState, PlayerColor, Point, RuleSet } from '../types';
+import { AiAction } from './Ai';
+import { NO_TIME_CONTROL } from './Clock';
+import { GameFlow } from './GameFlow';
+import { GoRules, RULE_SETS } from './GoRules';
+import { Gtp, GtpResponse } from './Gtp';
+import { Notation } from './Notation';
+import { Result } from './Result';
+import { Scoring } from './Scoring';
+import { Sgf } from './Sgf';
+
+export interface GtpEngineOptions {
+  name?: string;
+  ruleSet?: RuleSet;
+  genmove: (state: GameState) => AiAction;
+  readFile?: (path: string) => string;  // loadsgf 用，浏览器中不提供
+}
+
+const MAX_SIZE = 25;
+
+const COMMANDS = [
+  'protocol_version', 'name', 'version', 'known_command', 'list_commands', 'quit',
+  'boardsize', 'clear_board', 'komi', 'fixed_handicap', 'set_free_handicap',
+  'play', 'genmove', 'undo', 'is_legal', 'final_score', 'showboard', 'loadsgf',
+];
+
+const ok = (text = ''): GtpResponse => ({ ok: true, text });
+const fail = (text: string): GtpResponse => ({ ok: false, text });
+
+/**
+ * 以 GoRules 为规则的无界面 GTP 引擎，可接标准的 GTP 回归测试工具检查规则实现。
+ * 落子是否合法全由 GameFlow 判定；genmove 的选点由调用方提供。
+ */
+export class GtpEngine {
+  done = false;
+  private settings: GameSettings;
+  private state: GameState;
+  private undoStack: GameState[] = [];
+
+  constructor(private readonly options: GtpEngineOptions) {
+    const ruleSet = options.ruleSet ?? 'chinese';
+    this.settings = {
+      boardSize: 19,
+      komi: RULE_SETS[ruleSet].komi,
+      ruleSet,
+      scoringMethod: RULE_SETS[ruleSet].scoringMethod,
+      handicap: 0,
+      handicapMode: 'fixed',
+      timeControl: NO_TIME_CONTROL,
+      hostColor: 'black',
+    };
+    this.state = GameFlow.create(this.settings, []);
+  }
+
+  // 处理一行输入，返回完整应答；空行与注释返回空串
+  handle(line: string): string {
+    const command = Gtp.parseCommand(line);
+    if (!command) return '';
+    let response: GtpResponse;
+    try {
+      response = this.run(command.name, command.args);
+    } catch (err) {
+      response = fail((err as Error).message);
+    }
+    return Gtp.formatResponse(command.id, response);
+  }
+
+  // 不给读文件的能力时不报 loadsgf
+  private get commands(): string[] {
+    return this.options.readFile ? COMMANDS : COMMANDS.filter(c => c !== 'loadsgf');
+  }
+
+  private get size(): number {
+    return this.settings.boardSize;
+  }
+
+  private reset(): void {
+    this.state = GameFlow.create(this.settings, []);
+    this.undoStack = [];
+  }
+
+  private point(text: string | undefined): Point | null {
+    const action = text && Gtp.parseVertex(text, this.size);
+    if (!action || action.type === 'resign') throw new Error('invalid vertex');
+    return action.type === 'move' ? action.point : null;
+  }
+
+  private player(text: string | undefined): PlayerColor {
+    const color = text && Gtp.parseColor(text);
+    if (!color) throw new Error('invalid color');
+    return color;
+  }
+
+  // 按指定颜色行棋，不论当前轮到谁
+  private apply(player: PlayerColor, p: Point | null): GameState | null {
+    const state: GameState = { ...this.state, currentPlayer: player };
+    if (!p) return { ...GameFlow.pass(state), isScoring: false };
+    const result = GameFlow.playMove(state, p);
+    return result.valid && result.state ? result.state : null;
+  }
+
+  private commit(next: GameState): void {
+    this.undoStack.push(this.state);
+    this.state = next;
+  }
+
+  private placeHandicap(points: Point[]): void {
+    if (this.state.moves.length > 0 || this.state.board.some(row => row.some(c => c !== null))) throw new Error('board not empty');
+    this.state = GameFlow.create({ ...this.settings, handicap: points.length }, points);
+  }
+
+  private run(name: string, args: string[]): GtpResponse {
+    switch (name) {
+      case 'protocol_version': return ok('2');
+      case 'name': return ok(this.options.name ?? 'WEIQI');
+      case 'version': return ok('1.0');
+      case 'known_command': return ok(String(this.commands.includes((args[0] ?? '').toLowerCase())));
+      case 'list_commands': return ok(this.commands.join('\n'));
+      case 'quit':
+        this.done = true;
+        return ok();
+      case 'boardsize': {
+        const size = Number(args[0]);
+        if (!Number.isInteger(size)) return fail('syntax error');
+        if (size < 2 || size > MAX_SIZE) return fail('unacceptable size');
+        this.settings = { ...this.settings, boardSize: size };
+        this.reset();
+        return ok();
+      }
+      case 'clear_board':
+        this.reset();
+        return ok();
+      case 'komi': {
+        const komi = Number(args[0]);
+        if (args[0] === undefined || Number.isNaN(komi)) return fail('syntax error');
+        this.settings = { ...this.settings, komi };
+        this.state = { ...this.state, komi };
+        return ok();
+      }
+      case 'fixed_handicap': {
+        const count = Number(args[0]);
+        const points = Number.isInteger(count) ? GoRules.getHandicapPoints(this.size, count) : [];
+        if (count < 2 || points.length !== count) return fail('invalid number of stones');
+        this.placeHandicap(points);
+        return ok(points.map(p => Gtp.vertex(p, this.size)).join(' '));
+      }
+      case 'set_free_handicap': {
+        const points = args.map(a => this.point(a));
+        if (points.length < 2 || points.some(p => !p)) return fail('bad vertex list');
+        this.placeHandicap(points as Point[]);
+        return ok();
+      }
+      case 'play': {
+        const next = this.apply(this.player(args[0]), this.point(args[1]));
+        if (!next) return fail('illegal move');
+        this.commit(next);
+        return ok();
+      }
+      case 'is_legal':
+        return ok(this.apply(this.player(args[0]), this.point(args[1])) ? '1' : '0');
+      case 'genmove': {
+        const player = this.player(args[0]);
+        const action = this.options.genmove({ ...this.state, currentPlayer: player });
+        if (action.type === 'resign') return ok('resign');
+        const p = action.type === 'move' ? action.point : null;
+        const next = this.apply(player, p);
+        if (!next) return fail('engine chose an illegal move');
+        this.commit(next);
+        return ok(Gtp.vertex(p, this.size));
+      }
+      case 'undo': {
+        const prev = this.undoStack.pop();
+        if (!prev) return fail('cannot undo');
+        this.state = prev;
+        return ok();
+      }
+      case 'final_score': {
+        // 不判死活，按盘面现状计分，适合收完官的终局
+        const score = Scoring.score(this.state.board, this.state.captured, this.state.komi, this.state.scoringMethod);
+        return ok(Result.toSgf(Result.create(score.winner, 'score', score.margin)));
+      }
+      case 'showboard': return ok(`\n${this.render()}`);
+      case 'loadsgf': {
+        if (!this.options.readFile) return fail('cannot load file');
+        const game = Sgf.load(this.options.readFile(args[0] ?? ''));
+        const upTo = args[1] === undefined ? game.moves.length : Math.max(0, Number(args[1]) - 1);
+        this.settings = { ...game.settings, ruleSet: this.settings.ruleSet, scoringMethod: this.settings.scoringMethod };
+        this.state = GameFlow.replay(this.settings, game.handicapStones, game.moves.slice(0, upTo), game.setup);
+        this.undoStack = [];
+        return ok(this.state.currentPlayer);
+      }
+      default: return fail('unknown command');
+    }
+  }
+
+  private render(): string {
+    const size = this.size;
+    const columns = Array.from({ length: size }, (_, x) => Notation.column(x)).join(' ');
+    const rows = this.state.board.map((row, y) => {
+      const label = String(size - y).padStart(2);
+      return `${label} ${row.map(c => c === 'black' ? 'X' : c === 'white' ? 'O' : '.').join(' ')} ${label}`;
+    });
+    return [`   ${columns}`, ...rows, `   ${columns}`].join('\n');
+  }
+}
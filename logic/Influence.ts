@@ -0,0 +1,68 @@
+import { BoardState, PlayerColor, Point, ScoreResult, ScoringMethod } from '../types';
+import { Scoring } from './Scoring';
+
+// 每个交叉点的归属，-1 为白、1 为黑，0 为未定
+export type Ownership = number[][];
+
+// 影响力按曼哈顿距离减半，超出 REACH 不再计入
+const REACH = 4;
+const SCALE = 1.5;
+// 估算目数时归属超过此值才算作地
+const OWNED = 0.35;
+
+const sign = (color: PlayerColor) => color === 'black' ? 1 : -1;
+
+/**
+ * 形势判断：由棋子向四周扩散的影响力估出各点归属，用于棋盘上的势力显示与实时目数估算。
+ * 只是粗略估计，死活未定的棋一律按活棋看待，除非已标记为死子。
+ */
+export class Influence {
+  static ownership(board: BoardState, deadStones: Point[] = []): Ownership {
+    const size = board.length;
+    const cleared = Scoring.removeDeadStones(board, { black: 0, white: 0 }, deadStones).board;
+    const field = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    cleared.forEach((row, y) => row.forEach((cell, x) => {
+      if (!cell) return;
+      for (let dy = -REACH; dy <= REACH; dy++) {
+        for (let dx = -REACH; dx <= REACH; dx++) {
+          const d = Math.abs(dx) + Math.abs(dy);
+          const nx = x + dx, ny = y + dy;
+          if (d > REACH || nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+          field[ny][nx] += sign(cell) * 2 ** -d;
+        }
+      }
+    }));
+    const owner = field.map((row, y) => row.map((v, x) => {
+      const cell = cleared[y][x];
+      return cell ? sign(cell) : Math.tanh(v * SCALE);
+    }));
+    // 只与一方相邻的空地，影响力也偏向该方时才算确定的地，免得一颗孤子把半个空棋盘都算进去
+    const territory = Scoring.getTerritory(cleared);
+    (['black', 'white'] as PlayerColor[]).forEach(color => territory[color].forEach(p => {
+      if (owner[p.y][p.x] * sign(color) > 0) owner[p.y][p.x] = sign(color);
+    }));
+    return owner;
+  }
+
+  // 点目阶段的最终归属：死子归对方，空地只认四周只有一方的
+  static final(board: BoardState, deadStones: Point[]): Ownership {
+    const cleared = Scoring.removeDeadStones(board, { black: 0, white: 0 }, deadStones).board;
+    const owner: Ownership = board.map(row => row.map(cell => cell ? sign(cell) : 0));
+    deadStones.forEach(p => { if (board[p.y][p.x]) owner[p.y][p.x] = -sign(board[p.y][p.x]!); });
+    const territory = Scoring.getTerritory(cleared);
+    (['black', 'white'] as PlayerColor[]).forEach(color => territory[color].forEach(p => { owner[p.y][p.x] = sign(color); }));
+    return owner;
+  }
+
+  static estimate(board: BoardState, captured: { black: number; white: number }, komi: number, method: ScoringMethod, deadStones: Point[] = []): ScoreResult {
+    const owner = this.ownership(board, deadStones);
+    const cleared = Scoring.removeDeadStones(board, captured, deadStones);
+    const territory = { black: 0, white: 0 };
+    cleared.board.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell) return;
+      if (owner[y][x] >= OWNED) territory.black++;
+      else if (owner[y][x] <= -OWNED) territory.white++;
+    }));
+    return Scoring.tally(cleared.board, cleared.captured, komi, method, territory);
+  }
+}
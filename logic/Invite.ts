@@ -0,0 +1,93 @@
+import { GameSettings, PlayerColor, TimeControl } from '../types';
+import { Protocol } from './Protocol';
+
+// 房间号去掉了易混的 0/O、1/I/L
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 6;
+const ROOM_PREFIX = 'weiqi-';
+const ROOM_PATTERN = new RegExp(`^[${CODE_ALPHABET}]{${CODE_LENGTH}}$`);
+
+export interface InviteLink {
+  peerId: string;
+  settings: GameSettings | null;  // 链接里的设置不完整或不合法时为 null
+  relayUrl?: string;              // 主机走中继时一并带上地址
+}
+
+/**
+ * 邀请链接与房间号。房间号直接映射为连接 ID（weiqi-XXXXXX），无需额外的查询服务；
+ * 链接形如 #join=ABC-DEF&size=19&komi=7.5...，打开后自动加入并把设置提给主机确认。
+ */
+export class Invite {
+  static newRoomCode(): string {
+    return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  }
+
+  static roomPeerId(code: string): string {
+    return ROOM_PREFIX + code;
+  }
+
+  // 由房间号分配的 ID 返回便于口头转告的 ABC-DEF 形式，其余返回 null
+  static roomCode(peerId: string): string | null {
+    if (!peerId.startsWith(ROOM_PREFIX)) return null;
+    const code = peerId.slice(ROOM_PREFIX.length);
+    return ROOM_PATTERN.test(code) ? `${code.slice(0, 3)}-${code.slice(3)}` : null;
+  }
+
+  // 输入的是房间号（大小写、连字符、空格均可）就换成对应 ID，否则当作原始 ID
+  static resolve(input: string): string {
+    const trimmed = input.trim();
+    const code = trimmed.replace(/[\s-]/g, '').toUpperCase();
+    return ROOM_PATTERN.test(code) ? Invite.roomPeerId(code) : trimmed;
+  }
+
+  // 主机发来的设置是否就是链接提议的那套；猜先已由主机定下颜色，视为一致
+  static matches(actual: GameSettings, proposed: GameSettings): boolean {
+    const keys: (keyof TimeControl)[] = ['type', 'mainTime', 'periods', 'periodTime', 'stones', 'increment'];
+    return (proposed.hostColor === 'nigiri' || actual.hostColor === proposed.hostColor)
+      && actual.boardSize === proposed.boardSize && actual.komi === proposed.komi
+      && actual.ruleSet === proposed.ruleSet && actual.scoringMethod === proposed.scoringMethod
+      && actual.handicap === proposed.handicap && actual.handicapMode === proposed.handicapMode
+      && keys.every(k => actual.timeControl[k] === proposed.timeControl[k]);
+  }
+
+  static link(peerId: string, s: GameSettings, relayUrl?: string, base: string = `${location.origin}${location.pathname}`): string {
+    const tc = s.timeControl;
+    const params = new URLSearchParams({
+      join: Invite.roomCode(peerId) ?? peerId,
+      size: String(s.boardSize),
+      komi: String(s.komi),
+      rules: s.ruleSet,
+      scoring: s.scoringMethod,
+      handicap: String(s.handicap),
+      hmode: s.handicapMode,
+      time: [tc.type, tc.mainTime, tc.periods, tc.periodTime, tc.stones, tc.increment].join(':'),
+      color: s.hostColor,
+    });
+    if (relayUrl) params.set('relay', relayUrl);
+    return `${base}#${params.toString()}`;
+  }
+
+  static parse(hash: string): InviteLink | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const join = params.get('join');
+    if (!join) return null;
+    const [type, ...time] = (params.get('time') ?? '').split(':');
+    const [mainTime, periods, periodTime, stones, increment] = time.map(Number);
+    const settings = {
+      boardSize: Number(params.get('size')),
+      komi: Number(params.get('komi')),
+      ruleSet: params.get('rules'),
+      scoringMethod: params.get('scoring'),
+      handicap: Number(params.get('handicap')),
+      handicapMode: params.get('hmode'),
+      timeControl: { type, mainTime, periods, periodTime, stones, increment },
+      hostColor: params.get('color') as PlayerColor | 'nigiri',
+    };
+    const relayUrl = params.get('relay');
+    return {
+      peerId: Invite.resolve(join),
+      settings: Protocol.isSettings(settings) ? settings : null,
+      ...(relayUrl && /^wss?:\/\//.test(relayUrl) ? { relayUrl } : {}),
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { GameState, PlayerColor, Point } from '../types';
+import { GoRules } from './GoRules';
+import { Notation } from './Notation';
+import { Result } from './Result';
+
+const NAMES: Record<PlayerColor, string> = { black: '黑方', white: '白方' };
+
+/**
+ * 供读屏软件使用的文字播报：局面变化时说出发生了什么，也可整盘描述当前局面。
+ */
+export class Narrator {
+  // 对比前后两个局面：落子或跳过、提子、叫吃、悔棋与终局
+  static announce(prev: GameState, next: GameState): string | null {
+    const size = next.board.length;
+    if (next.result && !prev.result) return `对局结束：${Result.describe(next.result, next.score?.method ?? next.scoringMethod)}。`;
+    if (next.moves.length < prev.moves.length) return `悔棋，回到第 ${next.moves.length} 手。`;
+    if (next.moves.length !== prev.moves.length + 1) return null;
+
+    const move = next.moves[next.moves.length - 1];
+    const parts = [`第 ${next.moves.length} 手，${NAMES[move.player]}${move.point ? ` ${Notation.point(move.point, size)}` : '跳过'}`];
+    const taken = next.captured[move.player] - prev.captured[move.player];
+    if (taken > 0) parts.push(`${NAMES[move.player]}提 ${taken} 子`);
+    if (move.point) parts.push(...this.ataris(next.board, move.point).map(({ color, at }) =>
+      color === move.player ? `${NAMES[color]} ${at} 一块只剩一口气` : `叫吃${NAMES[color]} ${at}`));
+    if (next.isScoring && !prev.isScoring) parts.push('双方跳过，进入点目');
+    return parts.join('，') + '。';
+  }
+
+  // 与刚落下的子相邻（含其本身）且只剩一口气的棋块
+  private static ataris(board: GameState['board'], p: Point): { color: PlayerColor; at: string }[] {
+    const seen = new Set<string>();
+    const found: { color: PlayerColor; at: string }[] = [];
+    for (const q of [p, ...GoRules.getAdjacent(p, board.length)]) {
+      const color = board[q.y][q.x];
+      if (!color || seen.has(`${q.x},${q.y}`)) continue;
+      const group = GoRules.getGroup(board, q);
+      group.stones.forEach(s => seen.add(`${s.x},${s.y}`));
+      if (group.liberties.size === 1) found.push({ color, at: Notation.point(q, board.length) });
+    }
+    return found;
+  }
+
+  static describe(state: GameState): string {
+    const size = state.board.length;
+    const stones = (color: PlayerColor) => {
+      const points: string[] = [];
+      state.board.forEach((row, y) => row.forEach((cell, x) => { if (cell === color) points.push(Notation.point({ x, y }, size)); }));
+      return points.length ? `${NAMES[color]} ${points.length} 子：${points.join('、')}` : `${NAMES[color]}无子`;
+    };
+    const status = state.result
+      ? `对局已结束，${Result.describe(state.result, state.score?.method ?? state.scoringMethod)}`
+      : state.isScoring ? '点目中' : `已下 ${state.moves.length} 手，轮到${NAMES[state.currentPlayer]}`;
+    const last = state.lastMove ? `上一手 ${Notation.point(state.lastMove, size)}。` : '';
+    return `${size} 路棋盘，${status}。${last}${stones('black')}。${stones('white')}。提子：黑方 ${state.captured.black}，白方 ${state.captured.white}。`;
+  }
+}
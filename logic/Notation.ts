@@ -0,0 +1,63 @@
+import { BoardState, GameMove, Point } from '../types';
+
+// 列号按惯例跳过 I，最多支持 25 路
+const COLUMNS = 'ABCDEFGHJKLMNOPQRSTUVWXYZ';
+const COORD_PATTERN = /(?<![A-Za-z0-9])([A-HJ-Za-hj-z])(\d{1,2})(?![A-Za-z0-9])/g;
+
+export interface TextSegment {
+  text: string;
+  point?: Point;
+}
+
+/**
+ * 棋谱的文字记法：列用字母（无 I），行从下往上数，如 19 路的左上角为 A19、右下角为 T1。
+ */
+export class Notation {
+  static column(x: number): string {
+    return COLUMNS[x];
+  }
+
+  static row(y: number, size: number): number {
+    return size - y;
+  }
+
+  static point(p: Point, size: number): string {
+    return `${this.column(p.x)}${this.row(p.y, size)}`;
+  }
+
+  static move(move: GameMove, size: number): string {
+    return move.point ? this.point(move.point, size) : 'pass';
+  }
+
+  static parse(text: string, size: number): Point | null {
+    const match = /^([A-HJ-Za-hj-z])(\d{1,2})$/.exec(text.trim());
+    if (!match) return null;
+    const x = COLUMNS.indexOf(match[1].toUpperCase());
+    const y = size - Number(match[2]);
+    return x >= 0 && x < size && y >= 0 && y < size ? { x, y } : null;
+  }
+
+  // 把聊天文字拆成普通文字与坐标片段，超出棋盘范围的不算坐标
+  static tokenize(text: string, size: number): TextSegment[] {
+    const segments: TextSegment[] = [];
+    let last = 0;
+    for (const match of text.matchAll(COORD_PATTERN)) {
+      const point = this.parse(match[0], size);
+      if (!point) continue;
+      if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+      segments.push({ text: match[0], point });
+      last = match.index! + match[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last) });
+    return segments;
+  }
+
+  // 棋盘上仍在的棋子各自是第几手；同一点被提后重下的以最后一手为准
+  static moveNumbers(board: BoardState, moves: GameMove[]): Record<string, number> {
+    const numbers: Record<string, number> = {};
+    moves.forEach((m, i) => {
+      if (m.point && board[m.point.y][m.point.x] === m.player) numbers[`${m.point.x},${m.point.y}`] = i + 1;
+    });
+    return numbers;
+  }
+}
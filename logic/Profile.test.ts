@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { beforeEach, test } from 'node:test';
+import { MatchRecord, PlayerRecord, Profile } from './Profile';
+
+// node 里没有 localStorage，给资料存取一个内存里的
+const storage = new Map<string, string>();
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); },
+  },
+});
+
+beforeEach(() => storage.clear());
+
+const near = (actual: number, expected: number, tolerance = 0.5) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+test('rate follows Glicko-1 for a single game', () => {
+  // Glickman 论文中的例子，只取对 1400 ± 30 的一局胜局
+  const { rating, rd } = Profile.rate(1500, 200, { rating: 1400, rd: 30 }, 'win');
+  near(rating, 1563.6);
+  near(rd, 175.2);
+});
+
+test('wins raise, losses lower and an even draw keeps the rating', () => {
+  const opponent = { rating: 1500, rd: 100 };
+  assert.ok(Profile.rate(1500, 100, opponent, 'win').rating > 1500);
+  assert.ok(Profile.rate(1500, 100, opponent, 'loss').rating < 1500);
+  near(Profile.rate(1500, 100, opponent, 'draw').rating, 1500, 1e-9);
+  // 越不确定的一方，一盘棋带来的变动越大
+  const fresh = Profile.rate(1500, 350, opponent, 'win').rating - 1500;
+  const settled = Profile.rate(1500, 50, opponent, 'win').rating - 1500;
+  assert.ok(fresh > settled);
+});
+
+test('the rating deviation shrinks with games but never below the floor', () => {
+  let player = { rating: 1500, rd: 350 };
+  for (let i = 0; i < 200; i++) player = Profile.rate(player.rating, player.rd, { rating: 1500, rd: 30 }, i % 2 ? 'win' : 'loss');
+  assert.equal(player.rd, 30);
+});
+
+test('record applies the rating once per game and keeps the newest match first', () => {
+  const start: PlayerRecord = { profile: { id: 'me', name: '棋手', avatar: '🐼', rating: 1500, rd: 350 }, matches: [] };
+  const match = (gameId: string, outcome: MatchRecord['outcome']): Omit<MatchRecord, 'ratingBefore' | 'ratingAfter'> => ({
+    gameId, date: '2024-05-01', opponent: Profile.aiOpponent('medium'), color: 'black', boardSize: 9, outcome,
+  });
+
+  const first = Profile.record(start, match('g1', 'win'));
+  const expected = Profile.rate(1500, 350, Profile.aiOpponent('medium'), 'win');
+  assert.equal(first.profile.rating, expected.rating);
+  assert.equal(first.profile.rd, expected.rd);
+  assert.equal(first.matches[0].ratingBefore, 1500);
+  assert.equal(first.matches[0].ratingAfter, expected.rating);
+  assert.equal(Profile.record(first, match('g1', 'win')), first);
+
+  const second = Profile.record(first, match('g2', 'loss'));
+  assert.deepEqual(second.matches.map(m => m.gameId), ['g2', 'g1']);
+  assert.equal(second.matches[0].ratingBefore, first.profile.rating);
+  assert.deepEqual(Profile.load(), second);
+
+  const stats = Profile.stats(second.matches);
+  assert.deepEqual(stats.total, { wins: 1, losses: 1, draws: 0 });
+  assert.deepEqual(stats.byColor.black, { wins: 1, losses: 1, draws: 0 });
+  assert.deepEqual(stats.bySize, [{ size: 9, tally: { wins: 1, losses: 1, draws: 0 } }]);
+});
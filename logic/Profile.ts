@@ -0,0 +1,178 @@
+import { GameResult, PlayerColor, PlayerProfile } from '../types';
+import { AI_LEVELS, AiLevel } from './Ai';
+
+export type OpponentKind = 'online' | 'ai' | 'gtp';
+
+export interface Opponent {
+  id: string;       // 联机为对方资料的编号，电脑与引擎按难度或引擎名区分
+  name: string;
+  avatar: string;
+  kind: OpponentKind;
+  rating: number;
+  rd: number;
+}
+
+export type Outcome = 'win' | 'loss' | 'draw';
+
+export interface MatchRecord {
+  gameId: string;
+  date: string;
+  opponent: Opponent;
+  color: PlayerColor;
+  boardSize: number;
+  outcome: Outcome;
+  ratingBefore: number;
+  ratingAfter: number;
+}
+
+export interface PlayerRecord {
+  profile: PlayerProfile;
+  matches: MatchRecord[]; // 新的在前
+}
+
+export interface Tally {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface ProfileStats {
+  total: Tally;
+  byColor: Record<PlayerColor, Tally>;
+  bySize: { size: number; tally: Tally }[];
+  byOpponent: { opponent: Opponent; tally: Tally }[]; // 按对局数从多到少
+}
+
+const PROFILE_KEY = 'weiqi-profile';
+const MAX_MATCHES = 500;
+
+export const AVATARS = ['🐼', '🦊', '🐯', '🐉', '🦉', '🐢', '🦀', '🐙', '🌸', '🍵', '⛩️', '🎋'];
+export const MAX_NAME_LENGTH = 16;
+
+const DEFAULT_RATING = 1500;
+const INITIAL_RD = 350;
+// 偏差不再往下收，等级分始终能跟上棋力变化
+const MIN_RD = 30;
+
+// 内置电脑按难度给个大致的等级分；引擎棋力未知，按新人算
+const AI_RATINGS: Record<AiLevel, number> = { easy: 1000, medium: 1300, hard: 1600 };
+const AI_RD = 100;
+
+const Q = Math.LN10 / 400;
+const g = (rd: number) => 1 / Math.sqrt(1 + 3 * Q * Q * rd * rd / (Math.PI * Math.PI));
+
+const emptyTally = (): Tally => ({ wins: 0, losses: 0, draws: 0 });
+
+const count = (tally: Tally, outcome: Outcome) => {
+  if (outcome === 'win') tally.wins++;
+  else if (outcome === 'loss') tally.losses++;
+  else tally.draws++;
+};
+
+const newProfile = (): PlayerProfile => {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return {
+    id,
+    name: `棋手${Math.floor(Math.random() * 9000 + 1000)}`,
+    avatar: AVATARS[Math.floor(Math.random() * AVATARS.length)],
+    rating: DEFAULT_RATING,
+    rd: INITIAL_RD,
+  };
+};
+
+/**
+ * 本地玩家资料与等级分。每盘与电脑、引擎或联机对手下完的棋按 Glicko 更新一次等级分，
+ * 对局记录留在本地用于统计；本地双人对弈不计分。
+ */
+export class Profile {
+  static load(): PlayerRecord {
+    try {
+      const saved = JSON.parse(localStorage.getItem(PROFILE_KEY) ?? 'null') as PlayerRecord | null;
+      if (saved?.profile) return { profile: saved.profile, matches: saved.matches ?? [] };
+    } catch {
+      // 存档损坏时重新建一份
+    }
+    const record: PlayerRecord = { profile: newProfile(), matches: [] };
+    this.save(record);
+    return record;
+  }
+
+  private static save(record: PlayerRecord) {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(record));
+  }
+
+  // 改昵称或头像；昵称为空时保持原样
+  static update(record: PlayerRecord, changes: { name?: string; avatar?: string }): PlayerRecord {
+    const name = changes.name?.trim().slice(0, MAX_NAME_LENGTH);
+    const next = { ...record, profile: { ...record.profile, name: name || record.profile.name, avatar: changes.avatar ?? record.profile.avatar } };
+    this.save(next);
+    return next;
+  }
+
+  static aiOpponent(level: AiLevel): Opponent {
+    return { id: `ai:${level}`, name: `电脑 · ${AI_LEVELS[level].label}`, avatar: '🤖', kind: 'ai', rating: AI_RATINGS[level], rd: AI_RD };
+  }
+
+  static engineOpponent(name: string): Opponent {
+    return { id: `gtp:${name}`, name: `GTP · ${name}`, avatar: '🖥️', kind: 'gtp', rating: DEFAULT_RATING, rd: INITIAL_RD };
+  }
+
+  // 对方没有发来资料（旧版本）时按新人算
+  static onlineOpponent(profile: PlayerProfile | null, peerId: string): Opponent {
+    if (!profile) return { id: `peer:${peerId}`, name: `联机 · ${peerId.slice(0, 6)}`, avatar: '👤', kind: 'online', rating: DEFAULT_RATING, rd: INITIAL_RD };
+    return { id: profile.id, name: profile.name, avatar: profile.avatar, kind: 'online', rating: profile.rating, rd: profile.rd };
+  }
+
+  static outcome(result: GameResult, color: PlayerColor): Outcome {
+    return result.winner === 'draw' ? 'draw' : result.winner === color ? 'win' : 'loss';
+  }
+
+  // Glicko-1，每盘棋作为一个评分周期
+  static rate(rating: number, rd: number, opponent: { rating: number; rd: number }, outcome: Outcome): { rating: number; rd: number } {
+    const score = outcome === 'win' ? 1 : outcome === 'draw' ? 0.5 : 0;
+    const gj = g(opponent.rd);
+    const expected = 1 / (1 + Math.pow(10, -gj * (rating - opponent.rating) / 400));
+    const dSquared = 1 / (Q * Q * gj * gj * expected * (1 - expected));
+    const precision = 1 / (rd * rd) + 1 / dSquared;
+    return {
+      rating: rating + Q / precision * gj * (score - expected),
+      rd: Math.max(MIN_RD, Math.sqrt(1 / precision)),
+    };
+  }
+
+  // 记下一盘终局的棋并更新等级分；同一盘只记一次
+  static record(record: PlayerRecord, match: Omit<MatchRecord, 'ratingBefore' | 'ratingAfter'>): PlayerRecord {
+    if (record.matches.some(m => m.gameId === match.gameId)) return record;
+    const { profile } = record;
+    const { rating, rd } = this.rate(profile.rating, profile.rd, match.opponent, match.outcome);
+    const next: PlayerRecord = {
+      profile: { ...profile, rating, rd },
+      matches: [{ ...match, ratingBefore: profile.rating, ratingAfter: rating }, ...record.matches].slice(0, MAX_MATCHES),
+    };
+    this.save(next);
+    return next;
+  }
+
+  static stats(matches: MatchRecord[]): ProfileStats {
+    const total = emptyTally();
+    const byColor = { black: emptyTally(), white: emptyTally() };
+    const bySize = new Map<number, Tally>();
+    const byOpponent = new Map<string, { opponent: Opponent; tally: Tally }>();
+    matches.forEach(m => {
+      count(total, m.outcome);
+      count(byColor[m.color], m.outcome);
+      if (!bySize.has(m.boardSize)) bySize.set(m.boardSize, emptyTally());
+      count(bySize.get(m.boardSize)!, m.outcome);
+      // 记录新的在前，对手的昵称头像取最近一盘的
+      if (!byOpponent.has(m.opponent.id)) byOpponent.set(m.opponent.id, { opponent: m.opponent, tally: emptyTally() });
+      count(byOpponent.get(m.opponent.id)!.tally, m.outcome);
+    });
+    const games = (t: Tally) => t.wins + t.losses + t.draws;
+    return {
+      total,
+      byColor,
+      bySize: [...bySize].map(([size, tally]) => ({ size, tally })).sort((a, b) => a.size - b.size),
+      byOpponent: [...byOpponent.values()].sort((a, b) => games(b.tally) - games(a.tally)),
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { GameSettings, SyncPayload } from '../types';
+import { NO_TIME_CONTROL } from './Clock';
+import { GameFlow } from './GameFlow';
+import { Invite } from './Invite';
+import { PROTOCOL_VERSION, Protocol } from './Protocol';
+
+const settings: GameSettings = {
+  boardSize: 19, komi: 7.5, ruleSet: 'chinese', scoringMethod: 'area', handicap: 0, handicapMode: 'fixed',
+  timeControl: NO_TIME_CONTROL, hostColor: 'black',
+};
+
+const propose = (payload: unknown) => Protocol.parse({ type: 'SETUP_PROPOSE', payload, v: PROTOCOL_VERSION }).valid;
+
+test('settings accept the supported boards and handicaps', () => {
+  for (const boardSize of [9, 13, 19]) {
+    for (const handicap of [0, 2, 5, 9]) {
+      assert.ok(Protocol.isSettings({ ...settings, boardSize, handicap }), `${boardSize} / ${handicap}`);
+      assert.ok(propose({ ...settings, boardSize, handicap, handicapMode: 'free' }));
+    }
+  }
+});
+
+test('settings reject board sizes the app does not offer', () => {
+  for (const boardSize of [2, 7, 10, 18, 25, 26, 9.5]) {
+    assert.equal(Protocol.isSettings({ ...settings, boardSize }), false, String(boardSize));
+  }
+  assert.equal(propose({ ...settings, boardSize: 10, handicap: 5 }), false);
+});
+
+test('settings reject handicaps the board cannot place', () => {
+  assert.equal(Protocol.isSettings({ ...settings, handicap: 1 }), false);
+  assert.equal(Protocol.isSettings({ ...settings, handicap: 10 }), false);
+  assert.equal(Protocol.isSettings({ ...settings, handicap: -2 }), false);
+  assert.equal(Protocol.isSettings({ ...settings, handicap: 2.5 }), false);
+});
+
+test('spectate and invite settings use the same checks', () => {
+  assert.equal(Protocol.parse({ type: 'SPECTATE', payload: { ...settings, boardSize: 10 }, v: PROTOCOL_VERSION }).valid, false);
+  assert.ok(Protocol.parse({ type: 'SPECTATE', payload: settings, v: PROTOCOL_VERSION }).valid);
+  const base = 'https://example.test/';
+  assert.deepEqual(Invite.parse(new URL(Invite.link('abc', settings, undefined, base)).hash)?.settings, settings);
+  assert.equal(Invite.parse(new URL(Invite.link('abc', { ...settings, boardSize: 10, handicap: 5 }, undefined, base)).hash)?.settings, null);
+});
+
+test('full-game messages travel without board snapshots and replay the moves on receipt', () => {
+  let state = GameFlow.create(settings);
+  for (const p of [{ x: 3, y: 3 }, { x: 15, y: 15 }, { x: 4, y: 3 }]) state = GameFlow.playMove(state, p).state!;
+  const sent = Protocol.stamp({ type: 'SYNC', payload: { gameState: state } });
+  assert.deepEqual(sent.payload.gameState.history, []);
+  const { message } = Protocol.parse(JSON.parse(JSON.stringify(sent)));
+  assert.deepEqual((message?.payload as SyncPayload).gameState.history, state.history);
+  // 着手复不出所给的局面时拒收
+  const board = state.board.map(row => [...row]);
+  board[0][0] = 'white';
+  const forged = Protocol.stamp({ type: 'LOAD_REQ', payload: { gameState: { ...state, board } } });
+  assert.equal(Protocol.parse(JSON.parse(JSON.stringify(forged))).valid, false);
+});
@@ -0,0 +1,175 @@
+import { BoardState, ChatMessage, ClockState, GameSettings, GameState, MessageType, NetworkMessage, PlayerColor, PlayerProfile, Point, SyncPayload, TimeControl } from '../types';
+import { GameFlow } from './GameFlow';
+import { BOARD_SIZES, GoRules, RULE_SETS } from './GoRules';
+
+// 消息结构有不兼容的改动时递增，双方版本不同即拒收
+export const PROTOCOL_VERSION = 2;
+
+const MAX_BOARD_SIZE = 25;
+const MAX_TEXT_LENGTH = 500;
+// 整盘同步只带最近这些聊天，连同着手一起控制在中继的单帧上限以内
+export const MAX_SYNC_CHAT = 200;
+
+// 带整盘局面的消息：发出时去掉历史局面，收到后按着手重放补回
+const SNAPSHOT_MESSAGES: MessageType[] = ['SYNC', 'LOAD_REQ', 'LOAD_ACCEPT'];
+
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+const isNull = (v: unknown) => v === null || v === undefined;
+const isColor = (v: unknown): v is PlayerColor => v === 'black' || v === 'white';
+const isText = (v: unknown, max: number = MAX_TEXT_LENGTH): v is string => typeof v === 'string' && v.length <= max;
+const isOneOf = <T extends string>(v: unknown, options: readonly T[]): v is T => options.includes(v as T);
+const isListOf = <T>(v: unknown, item: (x: unknown) => x is T): v is T[] => Array.isArray(v) && v.every(item);
+
+const isPoint = (v: unknown, size: number = MAX_BOARD_SIZE): v is Point =>
+  isObject(v) && isCount(v.x) && isCount(v.y) && v.x < size && v.y < size;
+
+const isPoints = (v: unknown, size: number): v is Point[] => Array.isArray(v) && v.every(p => isPoint(p, size));
+
+const isBoard = (v: unknown, size?: number): v is BoardState =>
+  Array.isArray(v) && v.length >= 2 && v.length <= MAX_BOARD_SIZE && (size === undefined || v.length === size)
+  && v.every(row => Array.isArray(row) && row.length === v.length && row.every(c => c === null || isColor(c)));
+
+const isCaptured = (v: unknown): v is { black: number; white: number } => isObject(v) && isCount(v.black) && isCount(v.white);
+
+const isTimeControl = (v: unknown): v is TimeControl =>
+  isObject(v) && isOneOf(v.type, ['none', 'absolute', 'byoyomi', 'canadian', 'fischer'])
+  && isCount(v.mainTime) && isCount(v.periods) && isCount(v.periodTime) && isCount(v.stones) && isCount(v.increment);
+
+const isClockState = (v: unknown): v is ClockState =>
+  isObject(v) && isNumber(v.mainTime) && isCount(v.periods) && isNumber(v.periodTime) && isCount(v.stones);
+
+const isRuleSet = (v: unknown) => typeof v === 'string' && Object.prototype.hasOwnProperty.call(RULE_SETS, v);
+const isScoringMethod = (v: unknown) => v === 'area' || v === 'territory';
+
+// 对局设置只接受界面上能选的棋盘，让子不超过该棋盘的星位数
+const isSettings = (v: unknown): v is GameSettings =>
+  isObject(v) && isCount(v.boardSize) && BOARD_SIZES.includes(v.boardSize) && isNumber(v.komi)
+  && isRuleSet(v.ruleSet) && isScoringMethod(v.scoringMethod)
+  && isCount(v.handicap) && v.handicap !== 1 && v.handicap <= GoRules.maxHandicap(v.boardSize)
+  && isOneOf(v.handicapMode, ['fixed', 'free']) && isTimeControl(v.timeControl) && (isColor(v.hostColor) || v.hostColor === 'nigiri');
+
+const isChat = (v: unknown): v is ChatMessage =>
+  isObject(v) && isText(v.id, 64) && isText(v.sender, 32) && isText(v.text)
+  && (isNull(v.isEmoji) || typeof v.isEmoji === 'boolean') && (isColor(v.color) || v.color === 'spectator')
+  && (isNull(v.moveNumber) || isCount(v.moveNumber));
+
+const isProfile = (v: unknown): v is PlayerProfile =>
+  isObject(v) && isText(v.id, 64) && isText(v.name, 16) && v.name.trim() !== '' && isText(v.avatar, 8)
+  && isNumber(v.rating) && isNumber(v.rd) && v.rd > 0;
+
+const isSideScore = (v: unknown) =>
+  isObject(v) && isNumber(v.territory) && isNumber(v.stones) && isNumber(v.captures) && isNumber(v.komi) && isNumber(v.total);
+
+const isScore = (v: unknown) =>
+  isObject(v) && isScoringMethod(v.method) && isSideScore(v.black) && isSideScore(v.white)
+  && (isColor(v.winner) || v.winner === 'draw') && isNumber(v.margin);
+
+const isResult = (v: unknown) =>
+  isObject(v) && (isColor(v.winner) || v.winner === 'draw') && isOneOf(v.reason, ['resign', 'score', 'time', 'forfeit', 'agreement'])
+  && (v.margin === null || isNumber(v.margin)) && isText(v.date, 64);
+
+const isHistoryEntry = (v: unknown, size: number) =>
+  isObject(v) && isBoard(v.board, size) && isNumber(v.hash) && isCaptured(v.captured)
+  && (v.lastMove === null || isPoint(v.lastMove, size)) && isColor(v.player);
+
+const isMove = (v: unknown, size: number) => isObject(v) && isColor(v.player) && (v.point === null || isPoint(v.point, size));
+
+const isSetup = (v: unknown, size: number) =>
+  isObject(v) && isPoints(v.black, size) && isPoints(v.white, size) && isColor(v.player) && isCaptured(v.captured);
+
+const isGameState = (v: unknown): v is GameState => {
+  if (!isObject(v) || !isBoard(v.board)) return false;
+  const size = v.board.length;
+  return isColor(v.currentPlayer) && isCaptured(v.captured)
+    && Array.isArray(v.history) && v.history.every(h => isHistoryEntry(h, size))
+    && Array.isArray(v.moves) && v.moves.every(m => isMove(m, size))
+    && isCount(v.passCount) && typeof v.gameOver === 'boolean' && (v.result === null || isResult(v.result))
+    && (v.lastMove === null || isPoint(v.lastMove, size)) && isNumber(v.komi)
+    && isRuleSet(v.ruleSet) && isScoringMethod(v.scoringMethod)
+    && isCount(v.handicap) && isPoints(v.handicapStones, size) && isCount(v.handicapToPlace)
+    && (v.score === null || isScore(v.score)) && typeof v.isScoring === 'boolean' && isPoints(v.deadStones, size)
+    && isObject(v.scoreAccepted) && typeof v.scoreAccepted.black === 'boolean' && typeof v.scoreAccepted.white === 'boolean'
+    && isTimeControl(v.timeControl) && isObject(v.clocks) && isClockState(v.clocks.black) && isClockState(v.clocks.white)
+    && (v.turnStartedAt === null || isNumber(v.turnStartedAt)) && (isNull(v.setup) || isSetup(v.setup, size));
+};
+
+// 计时字段要么都有（联机），要么都没有（电脑走子）
+const isStamp = (v: Fields) =>
+  (isNull(v.at) && isNull(v.elapsed) || isNumber(v.at) && isNumber(v.elapsed)) && (isNull(v.hash) || isNumber(v.hash));
+
+const isSync = (v: unknown) => isObject(v) && isGameState(v.gameState) && (isNull(v.chatLog) || isListOf(v.chatLog, isChat));
+
+const isEmpty = (v: unknown) => isNull(v);
+
+const PAYLOAD_CHECKS: Record<MessageType, (payload: unknown) => boolean> = {
+  MOVE: v => isObject(v) && isPoint(v.point) && isStamp(v),
+  PASS: v => isObject(v) && isStamp(v),
+  CHAT: isChat,
+  SYNC: isSync,
+  SYNC_REQ: isEmpty,
+  UNDO_REQ: isEmpty,
+  UNDO_ACCEPT: isEmpty,
+  UNDO_DECLINE: isEmpty,
+  RESTART: isEmpty,
+  RESTART_REQ: isEmpty,
+  RESTART_ACCEPT: isEmpty,
+  RESTART_DECLINE: isEmpty,
+  LOAD_REQ: isSync,
+  LOAD_ACCEPT: isSync,
+  LOAD_DECLINE: isEmpty,
+  MARK_DEAD: v => isPoints(v, MAX_BOARD_SIZE),
+  ACCEPT_SCORE: isColor,
+  RESUME: isEmpty,
+  SETUP_PROPOSE: isSettings,
+  SETUP_ACCEPT: isEmpty,
+  SETUP_DECLINE: isEmpty,
+  TIMEOUT: isColor,
+  RESIGN: isColor,
+  DRAW_OFFER: isEmpty,
+  DRAW_ACCEPT: isEmpty,
+  DRAW_DECLINE: isEmpty,
+  SPECTATE: isSettings,
+  VIEWERS: v => isListOf(v, (id): id is string => isText(id, 128)),
+  HELLO: v => isObject(v) && (v.sessionId === null || isText(v.sessionId, 64)) && isCount(v.lastSeq)
+    && (isNull(v.proposal) || isSettings(v.proposal)) && (isNull(v.profile) || isProfile(v.profile)),
+  WELCOME: v => isObject(v) && isColor(v.color) && isSettings(v.settings) && isCount(v.lastSeq),
+  PROFILE: isProfile,
+};
+
+/**
+ * 网络消息的运行时校验。对方发来的数据一律先过这里：
+ * 版本不符、类型未知或载荷结构不对的直接拒收，轮次与合法性由对局逻辑再查。
+ */
+export class Protocol {
+  static stamp<T extends NetworkMessage>(msg: T): T {
+    if (!SNAPSHOT_MESSAGES.includes(msg.type)) return { ...msg, v: PROTOCOL_VERSION };
+    const { gameState, chatLog } = msg.payload as SyncPayload;
+    const payload: SyncPayload = { gameState: { ...gameState, history: [] }, ...(chatLog ? { chatLog: chatLog.slice(-MAX_SYNC_CHAT) } : {}) };
+    return { ...msg, payload, v: PROTOCOL_VERSION };
+  }
+
+  static parse(data: unknown): { valid: boolean; error?: string; message?: NetworkMessage } {
+    if (!isObject(data) || typeof data.type !== 'string') return { valid: false, error: 'Malformed message' };
+    if (data.v !== PROTOCOL_VERSION) return { valid: false, error: `Unsupported protocol version: ${String(data.v)}` };
+    if (!Object.prototype.hasOwnProperty.call(PAYLOAD_CHECKS, data.type)) return { valid: false, error: `Unknown message type: ${data.type}` };
+    if (!isNull(data.seq) && !(isCount(data.seq) && data.seq > 0)) return { valid: false, error: 'Invalid sequence number' };
+    if (!isNull(data.session) && !isText(data.session, 64)) return { valid: false, error: 'Invalid session id' };
+    if (!PAYLOAD_CHECKS[data.type as MessageType](data.payload)) return { valid: false, error: `Invalid ${data.type} payload` };
+    if (SNAPSHOT_MESSAGES.includes(data.type as MessageType)) {
+      const payload = data.payload as SyncPayload;
+      const gameState = GameFlow.restoreHistory(payload.gameState);
+      if (!gameState) return { valid: false, error: `Invalid ${data.type} payload: moves do not reproduce the board` };
+      return { valid: true, message: { ...data, payload: { ...payload, gameState } } as NetworkMessage };
+    }
+    return { valid: true, message: data as NetworkMessage };
+  }
+
+  // 邀请链接等外部来源的设置也按同一标准校验
+  static isSettings(v: unknown): v is GameSettings {
+    return isSettings(v);
+  }
+}
@@ -0,0 +1,56 @@
+import { GameResult, GameState, PlayerColor, ResultReason, ScoringMethod } from '../types';
+
+const SIDE_NAMES: Record<PlayerColor, string> = { black: '黑方', white: '白方' };
+
+export class Result {
+  static create(winner: PlayerColor | 'draw', reason: ResultReason, margin: number | null = null, date: string = new Date().toISOString()): GameResult {
+    return { winner, reason, margin, date };
+  }
+
+  // 记录结果并结束对局，时钟随之停止
+  static finish(state: GameState, winner: PlayerColor | 'draw', reason: ResultReason, margin: number | null = null): GameState {
+    return { ...state, gameOver: true, isScoring: false, turnStartedAt: null, result: this.create(winner, reason, margin) };
+  }
+
+  static loser(result: GameResult): PlayerColor | null {
+    return result.winner === 'draw' ? null : result.winner === 'black' ? 'white' : 'black';
+  }
+
+  // SGF 的 RE 写法：B+R 中盘胜、B+T 超时胜、B+F 弃权胜、B+3.5 计分胜、0 和棋
+  static toSgf(result: GameResult): string {
+    if (result.winner === 'draw') return '0';
+    const side = result.winner === 'black' ? 'B' : 'W';
+    switch (result.reason) {
+      case 'resign': return `${side}+R`;
+      case 'time': return `${side}+T`;
+      case 'forfeit': return `${side}+F`;
+      default: return result.margin !== null ? `${side}+${result.margin}` : `${side}+`;
+    }
+  }
+
+  static fromSgf(value: string, date?: string): GameResult | null {
+    const text = value.trim().toUpperCase();
+    if (text === '0' || text.startsWith('DRAW') || text === 'JIGO') return this.create('draw', 'score', 0, date);
+    const m = text.match(/^([BW])\+(.*)$/);
+    if (!m) return null;
+    const winner: PlayerColor = m[1] === 'B' ? 'black' : 'white';
+    const detail = m[2];
+    if (detail.startsWith('R')) return this.create(winner, 'resign', null, date);
+    if (detail.startsWith('T')) return this.create(winner, 'time', null, date);
+    if (detail.startsWith('F')) return this.create(winner, 'forfeit', null, date);
+    const margin = parseFloat(detail);
+    return this.create(winner, 'score', Number.isNaN(margin) ? null : margin, date);
+  }
+
+  static describe(result: GameResult, method: ScoringMethod = 'area'): string {
+    if (result.winner === 'draw') return result.reason === 'agreement' ? '双方同意和棋' : '和棋';
+    const winner = SIDE_NAMES[result.winner];
+    const loser = SIDE_NAMES[this.loser(result)!];
+    switch (result.reason) {
+      case 'resign': return `${loser}认输，${winner}中盘胜`;
+      case 'time': return `${loser}超时，${winner}胜`;
+      case 'forfeit': return `${loser}弃权，${winner}胜`;
+      default: return result.margin ? `${winner}胜 ${result.margin} ${method === 'area' ? '子' : '目'}` : `${winner}胜`;
+    }
+  }
+}
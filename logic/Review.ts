@@ -0,0 +1,140 @@
+import { BoardSetup, GameMove, GameSettings, GameState, Point } from '../types';
+import { GameFlow } from './GameFlow';
+import { Sgf, SgfNode } from './Sgf';
+
+export interface ReviewNode {
+  id: number;
+  parentId: number | null;
+  children: number[]; // 第一个子节点为主线
+  move: GameMove | null;
+  moveNumber: number;
+  state: GameState;
+}
+
+export interface ReviewTree {
+  nodes: ReviewNode[];
+  currentId: number;
+}
+
+export class Review {
+  static create(settings: GameSettings, handicapStones: Point[], setup?: BoardSetup | null): ReviewTree {
+    const root: ReviewNode = { id: 0, parentId: null, children: [], move: null, moveNumber: 0, state: GameFlow.create(settings, handicapStones, setup) };
+    return { nodes: [root], currentId: 0 };
+  }
+
+  static fromMoves(settings: GameSettings, handicapStones: Point[], moves: GameMove[], setup?: BoardSetup | null): ReviewTree {
+    let tree = this.create(settings, handicapStones, setup);
+    for (const move of moves) {
+      const result = this.play(tree, move);
+      if (result.error) break;
+      tree = result.tree;
+    }
+    return { ...tree, currentId: 0 };
+  }
+
+  // 按 SGF 树展开全部变化，非法着手所在的分支被截断
+  static fromSgf(settings: GameSettings, handicapStones: Point[], root: SgfNode, setup?: BoardSetup | null): ReviewTree {
+    let tree = this.create(settings, handicapStones, setup);
+    const walk = (node: SgfNode, parentId: number) => {
+      let id = parentId;
+      const move = Sgf.nodeMove(node, settings.boardSize);
+      if (move) {
+        const result = this.play({ ...tree, currentId: parentId }, move);
+        if (result.error) return;
+        tree = result.tree;
+        id = tree.currentId;
+      }
+      node.children.forEach(child => walk(child, id));
+    };
+    walk(root, 0);
+    return { ...tree, currentId: 0 };
+  }
+
+  static current(tree: ReviewTree): ReviewNode {
+    return tree.nodes[tree.currentId];
+  }
+
+  // 已有相同着手时沿用原节点，否则新开一个分支
+  static play(tree: ReviewTree, move: GameMove): { tree: ReviewTree; error?: string } {
+    const parent = this.current(tree);
+    const existing = parent.children.find(id => {
+      const m = tree.nodes[id].move;
+      return m && m.player === move.player && (m.point === null ? move.point === null : move.point !== null && m.point.x === move.point.x && m.point.y === move.point.y);
+    });
+    if (existing !== undefined) return { tree: { ...tree, currentId: existing } };
+
+    let state: GameState = { ...parent.state, currentPlayer: move.player, isScoring: false };
+    if (move.point) {
+      const result = GameFlow.playMove(state, move.point);
+      if (!result.valid || !result.state) return { tree, error: result.error };
+      state = result.state;
+    } else {
+      state = { ...GameFlow.pass(state), isScoring: false };
+    }
+
+    const node: ReviewNode = { id: tree.nodes.length, parentId: parent.id, children: [], move, moveNumber: parent.moveNumber + 1, state };
+    const nodes = tree.nodes.map(n => n.id === parent.id ? { ...n, children: [...n.children, node.id] } : n);
+    return { tree: { nodes: [...nodes, node], currentId: node.id } };
+  }
+
+  static goTo(tree: ReviewTree, id: number): ReviewTree {
+    return tree.nodes[id] ? { ...tree, currentId: id } : tree;
+  }
+
+  // 沿主线走到第 moveNumber 手，主线较短时停在末尾
+  static goToMove(tree: ReviewTree, moveNumber: number): ReviewTree {
+    let node = tree.nodes[0];
+    while (node.moveNumber < moveNumber && node.children.length > 0) node = tree.nodes[node.children[0]];
+    return { ...tree, currentId: node.id };
+  }
+
+  static first(tree: ReviewTree): ReviewTree {
+    return { ...tree, currentId: 0 };
+  }
+
+  static prev(tree: ReviewTree): ReviewTree {
+    const parentId = this.current(tree).parentId;
+    return parentId === null ? tree : { ...tree, currentId: parentId };
+  }
+
+  static next(tree: ReviewTree): ReviewTree {
+    const child = this.current(tree).children[0];
+    return child === undefined ? tree : { ...tree, currentId: child };
+  }
+
+  static last(tree: ReviewTree): ReviewTree {
+    let node = this.current(tree);
+    while (node.children.length > 0) node = tree.nodes[node.children[0]];
+    return { ...tree, currentId: node.id };
+  }
+
+  // 在同一父节点的各变化之间切换
+  static sibling(tree: ReviewTree, offset: number): ReviewTree {
+    const node = this.current(tree);
+    if (node.parentId === null) return tree;
+    const siblings = tree.nodes[node.parentId].children;
+    const index = siblings.indexOf(node.id) + offset;
+    return index >= 0 && index < siblings.length ? { ...tree, currentId: siblings[index] } : tree;
+  }
+
+  static path(tree: ReviewTree, id: number = tree.currentId): ReviewNode[] {
+    const path: ReviewNode[] = [];
+    let node: ReviewNode | undefined = tree.nodes[id];
+    while (node) {
+      path.unshift(node);
+      node = node.parentId === null ? undefined : tree.nodes[node.parentId];
+    }
+    return path;
+  }
+
+  // 当前局面上仍在盘的棋子对应的手数
+  static moveNumbers(tree: ReviewTree): Record<string, number> {
+    const board = this.current(tree).state.board;
+    const numbers: Record<string, number> = {};
+    for (const node of this.path(tree)) {
+      const p = node.move?.point;
+      if (p && board[p.y][p.x] === node.move!.player) numbers[`${p.x},${p.y}`] = node.moveNumber;
+    }
+    return numbers;
+  }
+}
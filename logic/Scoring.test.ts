@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BoardState } from '../types';
+import { Scoring } from './Scoring';
+
+// X 为黑，O 为白，其余为空
+const parse = (rows: string[]): BoardState =>
+  rows.map(row => [...row].map(c => c === 'X' ? 'black' : c === 'O' ? 'white' : null));
+
+// 黑地一路、白地两路，白地里有一颗黑死子；黑方提过 2 子，白方提过 3 子
+const board = parse([
+  '.XO..',
+  '.XO..',
+  '.XO.X',
+  '.XO..',
+  '.XO..',
+]);
+const captured = { black: 2, white: 3 };
+const dead = [{ x: 4, y: 2 }];
+
+test('territory scoring counts empty points, prisoners and dead stones', () => {
+  const score = Scoring.score(board, captured, 6.5, 'territory', dead);
+  assert.deepEqual(score.black, { territory: 5, stones: 0, captures: 2, komi: 0, total: 7 });
+  assert.deepEqual(score.white, { territory: 10, stones: 0, captures: 4, komi: 6.5, total: 20.5 });
+  assert.equal(score.winner, 'white');
+  assert.equal(score.margin, 13.5);
+});
+
+test('area scoring counts stones on the board instead of prisoners', () => {
+  const score = Scoring.score(board, captured, 6.5, 'area', dead);
+  assert.deepEqual(score.black, { territory: 5, stones: 5, captures: 0, komi: 0, total: 10 });
+  assert.deepEqual(score.white, { territory: 10, stones: 5, captures: 0, komi: 6.5, total: 21.5 });
+  assert.equal(score.margin, 11.5);
+});
+
+test('an unmarked dead stone spoils the territory around it', () => {
+  const area = Scoring.score(board, captured, 6.5, 'area');
+  assert.equal(area.white.territory, 0);
+  assert.equal(area.black.stones, 6);
+  assert.equal(area.winner, 'white');
+  assert.equal(area.margin, 0.5);
+  const territory = Scoring.score(board, captured, 6.5, 'territory');
+  assert.equal(territory.black.total, 7);
+  assert.equal(territory.white.total, 9.5);
+});
+
+test('equal scores with integer komi are a draw', () => {
+  const even = parse(['.XO', '.XO', '.XO']);
+  const score = Scoring.score(even, { black: 0, white: 0 }, 3, 'area');
+  assert.equal(score.black.total, 6);
+  assert.equal(score.white.total, 6);
+  assert.equal(score.winner, 'draw');
+  assert.equal(score.margin, 0);
+});
+
+test('marking toggles the whole group', () => {
+  const marked = Scoring.toggleDeadGroup(board, [], { x: 1, y: 0 });
+  assert.equal(marked.length, 5);
+  assert.deepEqual(Scoring.toggleDeadGroup(board, marked, { x: 1, y: 4 }), []);
+});
@@ -0,0 +1,105 @@
+import { BoardState, PlayerColor, Point, ScoreResult, ScoringMethod, SideScore } from '../types';
+import { GoRules } from './GoRules';
+
+export const KOMI_PRESETS = [6.5, 7.5];
+
+export class Scoring {
+  // 空点区域归属：只与一种颜色相邻的空地才算该方的地
+  static getTerritory(board: BoardState): { black: Point[]; white: Point[]; neutral: Point[] } {
+    const result = { black: [] as Point[], white: [] as Point[], neutral: [] as Point[] };
+    const visited = new Set<string>();
+
+    for (let y = 0; y < board.length; y++) {
+      for (let x = 0; x < board[y].length; x++) {
+        if (board[y][x] !== null || visited.has(`${x},${y}`)) continue;
+
+        const region: Point[] = [];
+        const borders = new Set<PlayerColor>();
+        const stack: Point[] = [{ x, y }];
+
+        while (stack.length > 0) {
+          const current = stack.pop()!;
+          const key = `${current.x},${current.y}`;
+          if (visited.has(key)) continue;
+          visited.add(key);
+          region.push(current);
+
+          for (const adj of GoRules.getAdjacent(current, board.length)) {
+            const adjColor = board[adj.y][adj.x];
+            if (adjColor === null) {
+              stack.push(adj);
+            } else {
+              borders.add(adjColor);
+            }
+          }
+        }
+
+        if (borders.size === 1) {
+          result[borders.has('black') ? 'black' : 'white'].push(...region);
+        } else {
+          result.neutral.push(...region);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  static countStones(board: BoardState, color: PlayerColor): number {
+    return board.reduce((sum, row) => sum + row.filter(c => c === color).length, 0);
+  }
+
+  // 死子提走后计入对方提子，再按空点归属数地
+  static removeDeadStones(board: BoardState, captured: { black: number; white: number }, deadStones: Point[]): { board: BoardState; captured: { black: number; white: number } } {
+    const newBoard = board.map(row => [...row]);
+    const newCaptured = { ...captured };
+    for (const s of deadStones) {
+      const color = newBoard[s.y][s.x];
+      if (!color) continue;
+      newCaptured[color === 'black' ? 'white' : 'black'] += 1;
+      newBoard[s.y][s.x] = null;
+    }
+    return { board: newBoard, captured: newCaptured };
+  }
+
+  static isDead(deadStones: Point[], p: Point): boolean {
+    return deadStones.some(s => s.x === p.x && s.y === p.y);
+  }
+
+  // 整块切换死活标记
+  static toggleDeadGroup(board: BoardState, deadStones: Point[], p: Point): Point[] {
+    const { stones } = GoRules.getGroup(board, p);
+    if (stones.length === 0) return deadStones;
+    const rest = deadStones.filter(d => !this.isDead(stones, d));
+    return stones.every(s => this.isDead(deadStones, s)) ? rest : [...rest, ...stones];
+  }
+
+  static score(board: BoardState, captured: { black: number; white: number }, komi: number, method: ScoringMethod, deadStones: Point[] = []): ScoreResult {
+    const cleared = this.removeDeadStones(board, captured, deadStones);
+    const territory = this.getTerritory(cleared.board);
+    return this.tally(cleared.board, cleared.captured, komi, method, { black: territory.black.length, white: territory.white.length });
+  }
+
+  // 按已定的地计分；board 与 captured 须是提走死子之后的
+  static tally(board: BoardState, captured: { black: number; white: number }, komi: number, method: ScoringMethod, territory: { black: number; white: number }): ScoreResult {
+    const side = (color: PlayerColor): SideScore => {
+      const t = territory[color];
+      const stones = method === 'area' ? this.countStones(board, color) : 0;
+      const captures = method === 'territory' ? captured[color] : 0;
+      const k = color === 'white' ? komi : 0;
+      return { territory: t, stones, captures, komi: k, total: t + stones + captures + k };
+    };
+
+    const black = side('black');
+    const white = side('white');
+    const diff = black.total - white.total;
+
+    return {
+      method,
+      black,
+      white,
+      winner: diff > 0 ? 'black' : diff < 0 ? 'white' : 'draw',
+      margin: Math.abs(diff),
+    };
+  }
+}
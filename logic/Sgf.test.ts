@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ChatMessage, GameSettings, GameState, Point } from '../types';
+import { NO_TIME_CONTROL } from './Clock';
+import { GameFlow } from './GameFlow';
+import { Result } from './Result';
+import { Review } from './Review';
+import { Sgf } from './Sgf';
+
+const settings: GameSettings = {
+  boardSize: 9, komi: 6.5, ruleSet: 'japanese', scoringMethod: 'territory', handicap: 2, handicapMode: 'fixed',
+  timeControl: { ...NO_TIME_CONTROL, type: 'byoyomi', mainTime: 600, periods: 3, periodTime: 30 }, hostColor: 'black',
+};
+
+const playAll = (state: GameState, points: (Point | null)[]) =>
+  points.reduce((s, p) => p ? GameFlow.playMove(s, p).state! : GameFlow.pass(s), state);
+
+const chat = (text: string, moveNumber: number): ChatMessage => ({ id: text, sender: '黑方', text, color: 'black', moveNumber });
+
+test('a handicap game survives export and import', () => {
+  const played = playAll(GameFlow.create(settings), [{ x: 2, y: 2 }, { x: 6, y: 4 }, null, { x: 4, y: 4 }]);
+  const state = { ...played, gameOver: true, result: Result.create('white', 'resign', null, '2024-05-01T00:00:00.000Z') };
+  const game = Sgf.load(Sgf.serialize(state, [chat('开局', 0), chat('a]b\\c', 2)]));
+
+  assert.deepEqual(game.settings, { ...settings, handicapMode: 'free' });
+  assert.deepEqual(game.handicapStones, state.handicapStones);
+  assert.equal(game.setup, null);
+  assert.deepEqual(game.moves, state.moves);
+  assert.deepEqual(game.comments, [{ moveNumber: 0, text: '黑方: 开局' }, { moveNumber: 2, text: '黑方: a]b\\c' }]);
+  assert.equal(game.result?.winner, 'white');
+  assert.equal(game.result?.reason, 'resign');
+  assert.deepEqual(Sgf.toGameState(game).board, state.board);
+});
+
+test('a position set up with AB, AW and PL survives export and import', () => {
+  const setup = { black: [{ x: 0, y: 0 }, { x: 1, y: 1 }], white: [{ x: 8, y: 8 }], player: 'white' as const, captured: { black: 0, white: 0 } };
+  const state = playAll(GameFlow.create({ ...settings, handicap: 0 }, [], setup), [{ x: 4, y: 4 }, { x: 3, y: 3 }]);
+  const text = Sgf.serialize(state);
+  assert.match(text, /AB\[aa\]\[bb\]AW\[ii\]PL\[W\]/);
+  const game = Sgf.load(text);
+  assert.deepEqual(game.setup, setup);
+  assert.deepEqual(game.handicapStones, []);
+  assert.deepEqual(game.moves, state.moves);
+  const loaded = Sgf.toGameState(game);
+  assert.deepEqual(loaded.board, state.board);
+  assert.equal(loaded.currentPlayer, 'white');
+});
+
+test('variations load as a review tree and the main line is what gets played and exported', () => {
+  const text = '(;GM[1]SZ[9]KM[7.5];B[cc](;W[gg];B[cg])(;W[gc]C[变化];B[gg]))';
+  const game = Sgf.load(text);
+  assert.deepEqual(game.moves.map(m => m.point), [{ x: 2, y: 2 }, { x: 6, y: 6 }, { x: 2, y: 6 }]);
+
+  const tree = Review.fromSgf(game.settings, game.handicapStones, game.root, game.setup);
+  const [first] = tree.nodes[0].children;
+  const branches = tree.nodes[first].children;
+  assert.equal(branches.length, 2);
+  assert.deepEqual(branches.map(id => tree.nodes[id].move?.point), [{ x: 6, y: 6 }, { x: 6, y: 2 }]);
+  const variation = Review.sibling({ ...tree, currentId: branches[0] }, 1);
+  assert.equal(Review.current(variation).id, branches[1]);
+  assert.deepEqual(tree.nodes[tree.nodes[branches[1]].children[0]].move?.point, { x: 6, y: 6 });
+
+  const again = Sgf.load(Sgf.serialize(Sgf.toGameState(game)));
+  assert.deepEqual(again.moves, game.moves);
+  assert.equal(again.settings.komi, 7.5);
+});
@@ -0,0 +1,245 @@
+import { BoardSetup, ChatMessage, GameMove, GameResult, GameSettings, GameState, Point, RuleSet, TimeControl } from '../types';
+import { NO_TIME_CONTROL } from './Clock';
+import { Result } from './Result';
+import { DEFAULT_BOARD_SIZE, RULE_SETS } from './GoRules';
+import { GameFlow } from './GameFlow';
+
+export interface SgfNode {
+  props: Record<string, string[]>;
+  children: SgfNode[];
+}
+
+export interface SgfGame {
+  settings: GameSettings;
+  handicapStones: Point[];
+  setup: BoardSetup | null;  // 有白子摆放或指定了行棋方时按摆棋处理
+  moves: GameMove[];
+  comments: { moveNumber: number; text: string }[];
+  result: GameResult | null;
+  root: SgfNode;
+}
+
+const RU_NAMES: Record<RuleSet, string> = {
+  chinese: 'Chinese',
+  japanese: 'Japanese',
+  aga: 'AGA',
+  nz: 'NZ',
+  'tromp-taylor': 'Tromp-Taylor',
+};
+
+// RU 取值并不统一，按常见写法的前缀识别，认不出时按中国规则
+const parseRuleSet = (value: string): RuleSet => {
+  const rules = value.toLowerCase();
+  if (rules.startsWith('japanese') || rules.startsWith('korean')) return 'japanese';
+  if (rules.startsWith('aga') || rules.startsWith('bga')) return 'aga';
+  if (rules.startsWith('nz') || rules.startsWith('new zealand')) return 'nz';
+  if (rules.startsWith('tromp') || rules === 'tt') return 'tromp-taylor';
+  return 'chinese';
+};
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/]/g, '\\]');
+
+export class Sgf {
+  static toCoord(p: Point): string {
+    return String.fromCharCode(97 + p.x) + String.fromCharCode(97 + p.y);
+  }
+
+  // FF[4] 用空值表示跳过，19 路以内也兼容旧式的 tt
+  static fromCoord(value: string, size: number): Point | null {
+    if (value.length !== 2 || (value === 'tt' && size <= 19)) return null;
+    const x = value.charCodeAt(0) - 97;
+    const y = value.charCodeAt(1) - 97;
+    if (x < 0 || x >= size || y < 0 || y >= size) throw new Error(`坐标越界：${value}`);
+    return { x, y };
+  }
+
+  // TM 为基本用时（秒），OT 沿用常见棋谱软件的写法
+  static formatTimeControl(tc: TimeControl): string {
+    switch (tc.type) {
+      case 'none': return '';
+      case 'absolute': return `TM[${tc.mainTime}]`;
+      case 'byoyomi': return `TM[${tc.mainTime}]OT[${tc.periods}x${tc.periodTime} byo-yomi]`;
+      case 'canadian': return `TM[${tc.mainTime}]OT[${tc.stones}/${tc.periodTime} Canadian]`;
+      case 'fischer': return `TM[${tc.mainTime}]OT[${tc.increment} fischer]`;
+    }
+  }
+
+  static parseTimeControl(tm: string | undefined, ot: string | undefined): TimeControl {
+    const mainTime = parseFloat(tm || '');
+    if (Number.isNaN(mainTime)) return NO_TIME_CONTROL;
+    const base = { ...NO_TIME_CONTROL, mainTime };
+    const overtime = (ot || '').toLowerCase();
+    let m: RegExpMatchArray | null;
+    if ((m = overtime.match(/^(\d+)x(\d+)\s*byo-?yomi/))) return { ...base, type: 'byoyomi', periods: +m[1], periodTime: +m[2] };
+    if ((m = overtime.match(/^(\d+)\/(\d+)\s*canadian/))) return { ...base, type: 'canadian', stones: +m[1], periodTime: +m[2] };
+    if ((m = overtime.match(/^(\d+)\s*fischer/))) return { ...base, type: 'fischer', increment: +m[1] };
+    return { ...base, type: 'absolute' };
+  }
+
+  static serialize(state: GameState, chatLog: ChatMessage[] = []): string {
+    const comments = new Map<number, string[]>();
+    // 系统消息与表情不写入棋谱
+    chatLog.filter(m => !m.isEmoji && m.sender !== '系统').forEach(m => {
+      const n = Math.min(m.moveNumber ?? 0, state.moves.length);
+      comments.set(n, [...(comments.get(n) || []), `${m.sender}: ${m.text}`]);
+    });
+    const comment = (n: number) => comments.has(n) ? `C[${escapeText(comments.get(n)!.join('\n'))}]` : '';
+
+    const date = (state.result?.date ?? new Date().toISOString()).slice(0, 10);
+    let root = `;FF[4]GM[1]CA[UTF-8]AP[WEIQI:1.0]SZ[${state.board.length}]KM[${state.komi}]`;
+    root += `RU[${RU_NAMES[state.ruleSet]}]DT[${date}]`;
+    root += this.formatTimeControl(state.timeControl);
+    const points = (ps: Point[]) => ps.map(p => `[${this.toCoord(p)}]`).join('');
+    if (state.setup) {
+      const { black, white, player } = state.setup;
+      root += `${black.length ? `AB${points(black)}` : ''}${white.length ? `AW${points(white)}` : ''}PL[${player === 'black' ? 'B' : 'W'}]`;
+    } else if (state.handicapStones.length > 0) {
+      root += `HA[${state.handicapStones.length}]AB${points(state.handicapStones)}`;
+    }
+    if (state.result) root += `RE[${Result.toSgf(state.result)}]`;
+    root += comment(0);
+
+    const nodes = state.moves.map((m, i) =>
+      `;${m.player === 'black' ? 'B' : 'W'}[${m.point ? this.toCoord(m.point) : ''}]${comment(i + 1)}`
+    );
+    return `(${root}\n${nodes.join('')})\n`;
+  }
+
+  static parse(text: string): SgfNode {
+    return this.parseTrees(text, 1)[0];
+  }
+
+  // 一个文件里可以依次放多盘棋谱（如题集）
+  static parseCollection(text: string): SgfNode[] {
+    return this.parseTrees(text, Infinity);
+  }
+
+  private static parseTrees(text: string, limit: number): SgfNode[] {
+    let pos = 0;
+    const skipSpace = () => { while (pos < text.length && /\s/.test(text[pos])) pos++; };
+    const expect = (ch: string) => {
+      skipSpace();
+      if (text[pos] !== ch) throw new Error(`SGF 格式错误：位置 ${pos} 处应为 "${ch}"`);
+      pos++;
+    };
+
+    const parseNode = (): SgfNode => {
+      expect(';');
+      const node: SgfNode = { props: {}, children: [] };
+      skipSpace();
+      while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+        let ident = '';
+        while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+          // 旧格式中的小写字母不属于属性名
+          if (text[pos] >= 'A' && text[pos] <= 'Z') ident += text[pos];
+          pos++;
+        }
+        const values: string[] = [];
+        skipSpace();
+        while (text[pos] === '[') {
+          pos++;
+          let value = '';
+          while (pos < text.length && text[pos] !== ']') {
+            if (text[pos] === '\\') pos++;
+            value += text[pos++] ?? '';
+          }
+          if (pos >= text.length) throw new Error('SGF 格式错误：属性值未闭合');
+          pos++;
+          values.push(value);
+          skipSpace();
+        }
+        if (values.length === 0) throw new Error(`SGF 格式错误：属性 ${ident} 缺少取值`);
+        node.props[ident] = [...(node.props[ident] || []), ...values];
+      }
+      return node;
+    };
+
+    // GameTree = "(" Sequence { GameTree } ")"
+    const parseTree = (): SgfNode => {
+      expect('(');
+      const first = parseNode();
+      let last = first;
+      skipSpace();
+      while (text[pos] === ';') {
+        const next = parseNode();
+        last.children.push(next);
+        last = next;
+        skipSpace();
+      }
+      while (text[pos] === '(') {
+        last.children.push(parseTree());
+        skipSpace();
+      }
+      expect(')');
+      return first;
+    };
+
+    const start = text.indexOf('(');
+    if (start < 0) throw new Error('SGF 格式错误：找不到棋谱');
+    pos = start;
+    const trees = [parseTree()];
+    skipSpace();
+    while (trees.length < limit && text[pos] === '(') {
+      trees.push(parseTree());
+      skipSpace();
+    }
+    return trees;
+  }
+
+  static nodeMove(node: SgfNode, size: number): GameMove | null {
+    if (node.props.B) return { player: 'black', point: this.fromCoord(node.props.B[0], size) };
+    if (node.props.W) return { player: 'white', point: this.fromCoord(node.props.W[0], size) };
+    return null;
+  }
+
+  static load(text: string): SgfGame {
+    return this.fromRoot(this.parse(text));
+  }
+
+  static fromRoot(root: SgfNode): SgfGame {
+    const prop = (key: string) => root.props[key]?.[0];
+
+    const size = parseInt(prop('SZ') || '', 10) || DEFAULT_BOARD_SIZE;
+    if (size < 2 || size > 25) throw new Error(`不支持的棋盘尺寸：${size}`);
+    const komi = parseFloat(prop('KM') || '');
+    const ruleSet = parseRuleSet(prop('RU') || '');
+    const points = (key: string) => (root.props[key] || []).map(v => this.fromCoord(v, size)).filter((p): p is Point => p !== null);
+    const black = points('AB');
+    const white = points('AW');
+    const setup: BoardSetup | null = white.length > 0 || root.props.PL
+      ? { black, white, player: prop('PL')?.toUpperCase() === 'W' ? 'white' : 'black', captured: { black: 0, white: 0 } }
+      : null;
+    const handicapStones = setup ? [] : black;
+
+    const settings: GameSettings = {
+      boardSize: size,
+      komi: Number.isNaN(komi) ? RULE_SETS[ruleSet].komi : komi,
+      ruleSet,
+      scoringMethod: RULE_SETS[ruleSet].scoringMethod,
+      handicap: handicapStones.length,
+      handicapMode: 'free',
+      timeControl: this.parseTimeControl(prop('TM'), prop('OT')),
+      hostColor: 'black',
+    };
+
+    // 沿主线（每个节点的第一个分支）读取着手
+    const moves: GameMove[] = [];
+    const comments: { moveNumber: number; text: string }[] = [];
+    let node: SgfNode | undefined = root;
+    while (node) {
+      const move = this.nodeMove(node, size);
+      if (move) moves.push(move);
+      if (node.props.C) comments.push({ moveNumber: moves.length, text: node.props.C.join('\n') });
+      node = node.children[0];
+    }
+
+    const date = prop('DT');
+    const result = prop('RE') ? Result.fromSgf(prop('RE')!, date && !Number.isNaN(Date.parse(date)) ? new Date(date).toISOString() : undefined) : null;
+    return { settings, handicapStones, setup, moves, comments, result, root };
+  }
+
+  static toGameState(game: SgfGame): GameState {
+    const state = GameFlow.replay(game.settings, game.handicapStones, game.moves, game.setup);
+    return game.result ? { ...state, gameOver: true, result: game.result } : state;
+  }
+}
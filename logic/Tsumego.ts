@@ -0,0 +1,152 @@
+import { BoardSetup, GameSettings, GameState, Point } from '../types';
+import { GameFlow } from './GameFlow';
+import { Sgf, SgfNode } from './Sgf';
+import { STARTER_PROBLEMS } from './TsumegoProblems';
+
+export interface TsumegoProblem {
+  id: string;
+  title: string;
+  settings: GameSettings;
+  setup: BoardSetup;
+  root: SgfNode;
+  marksRight: boolean;  // 题中标了正解时，只有标出的分支算对
+}
+
+export type AttemptStatus = 'solving' | 'right' | 'wrong';
+
+export interface TsumegoAttempt {
+  problem: TsumegoProblem;
+  state: GameState;
+  node: SgfNode | null;   // 当前所在的变化节点，走出题目变化后为 null
+  status: AttemptStatus;
+  comment: string;
+}
+
+export interface ProblemProgress {
+  attempts: number;
+  solved: number;
+  last: 'right' | 'wrong';
+}
+
+export interface TsumegoProgress {
+  problems: Record<string, ProblemProgress>;
+  streak: number;      // 连续答对的题数
+  bestStreak: number;
+}
+
+const PROGRESS_KEY = 'weiqi-tsumego';
+
+const RIGHT = /RIGHT|正解/i;
+const WRONG = /WRONG|失败/i;
+
+const comment = (node: SgfNode) => node.props.C?.join('\n') ?? '';
+
+/**
+ * 死活题练习：题目为带正解/失败变化树的 SGF，解题方走出变化中的一手后自动应对。
+ * 变化中的节点注释含 RIGHT / 正解 为对，含 WRONG / 失败 为错；没有标正解的题，走到变化末端即算对。
+ */
+export class Tsumego {
+  static starter(): TsumegoProblem[] {
+    return this.load(STARTER_PROBLEMS, 'starter');
+  }
+
+  // 题集文件中每盘棋谱为一题
+  static load(text: string, source: string): TsumegoProblem[] {
+    return Sgf.parseCollection(text).map((root, i) => {
+      const game = Sgf.fromRoot(root);
+      const firstMove = root.children.map(c => Sgf.nodeMove(c, game.settings.boardSize)).find(m => m);
+      const setup: BoardSetup = game.setup ?? {
+        black: game.handicapStones,
+        white: [],
+        player: firstMove?.player ?? 'black',
+        captured: { black: 0, white: 0 },
+      };
+      const hasRight = (node: SgfNode): boolean => RIGHT.test(comment(node)) || node.children.some(hasRight);
+      return {
+        id: `${source}:${root.props.GN?.[0] ?? i + 1}`,
+        title: root.props.GN?.[0] ?? `第 ${i + 1} 题`,
+        settings: { ...game.settings, handicap: 0 },
+        setup,
+        root,
+        marksRight: hasRight(root),
+      };
+    });
+  }
+
+  static start(problem: TsumegoProblem): TsumegoAttempt {
+    return {
+      problem,
+      state: GameFlow.create(problem.settings, [], problem.setup),
+      node: problem.root,
+      status: 'solving',
+      comment: comment(problem.root),
+    };
+  }
+
+  // 解题方落子；合法性由 GameFlow 按规则校验，不在变化中的着手直接判错
+  static play(attempt: TsumegoAttempt, p: Point): { attempt: TsumegoAttempt; error?: string } {
+    if (attempt.status !== 'solving' || !attempt.node) return { attempt };
+    const result = GameFlow.playMove(attempt.state, p);
+    if (!result.valid || !result.state) return { attempt, error: result.error };
+    const size = attempt.problem.settings.boardSize;
+    const next = attempt.node.children.find(c => {
+      const move = Sgf.nodeMove(c, size);
+      return move?.player === attempt.state.currentPlayer && move.point?.x === p.x && move.point?.y === p.y;
+    });
+    if (!next) return { attempt: { ...attempt, state: result.state, node: null, status: 'wrong', comment: '不在正解之中' } };
+    return { attempt: this.enter(attempt, result.state, next, true) };
+  }
+
+  // 对方按变化的第一个分支应对
+  static respond(attempt: TsumegoAttempt): TsumegoAttempt {
+    if (attempt.status !== 'solving' || !attempt.node) return attempt;
+    const next = attempt.node.children[0];
+    const move = next && Sgf.nodeMove(next, attempt.problem.settings.boardSize);
+    if (!move) return attempt;
+    let state: GameState = { ...attempt.state, currentPlayer: move.player };
+    if (move.point) {
+      const result = GameFlow.playMove(state, move.point);
+      if (!result.valid || !result.state) throw new Error(`题目变化不合法：${result.error}`);
+      state = result.state;
+    } else {
+      state = { ...GameFlow.pass(state), isScoring: false };
+    }
+    return this.enter(attempt, state, next, false);
+  }
+
+  // 是否轮到对方应对
+  static awaitingReply(attempt: TsumegoAttempt): boolean {
+    return attempt.status === 'solving' && !!attempt.node && attempt.node.children.length > 0
+      && attempt.state.currentPlayer !== attempt.problem.setup.player;
+  }
+
+  private static enter(attempt: TsumegoAttempt, state: GameState, node: SgfNode, bySolver: boolean): TsumegoAttempt {
+    const text = comment(node);
+    let status: AttemptStatus = 'solving';
+    if (WRONG.test(text)) status = 'wrong';
+    else if (RIGHT.test(text)) status = 'right';
+    else if (node.children.length === 0) status = bySolver && !attempt.problem.marksRight ? 'right' : 'wrong';
+    return { ...attempt, state, node, status, comment: text };
+  }
+
+  static loadProgress(): TsumegoProgress {
+    try {
+      return { problems: {}, streak: 0, bestStreak: 0, ...JSON.parse(localStorage.getItem(PROGRESS_KEY) ?? '{}') };
+    } catch {
+      return { problems: {}, streak: 0, bestStreak: 0 };
+    }
+  }
+
+  // 记一次作答并写回本地
+  static record(progress: TsumegoProgress, id: string, right: boolean): TsumegoProgress {
+    const prev = progress.problems[id] ?? { attempts: 0, solved: 0, last: 'wrong' };
+    const streak = right ? progress.streak + 1 : 0;
+    const next: TsumegoProgress = {
+      problems: { ...progress.problems, [id]: { attempts: prev.attempts + 1, solved: prev.solved + (right ? 1 : 0), last: right ? 'right' : 'wrong' } },
+      streak,
+      bestStreak: Math.max(progress.bestStreak, streak),
+    };
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(next));
+    return next;
+  }
+}
@@ -0,0 +1,38 @@
+// 内置入门题集：9 路盘上的吃子与角上死活，黑先
+export const STARTER_PROBLEMS = `
+(;GM[1]FF[4]CA[UTF-8]SZ[9]GN[吃掉角上白子]PL[B]
+AB[ba]AW[aa]
+C[黑先，吃掉角上的白子。]
+;B[ab]C[正解：白子没有气了。])
+
+(;GM[1]FF[4]CA[UTF-8]SZ[9]GN[直三做活]PL[B]
+AB[ab][bb][cb][db][da]AW[ac][bc][cc][dc][ec][eb][ea]
+C[黑先活。角上三个空点怎样做出两只眼？]
+(;B[ba]C[正解：占住中间，两边各是一只眼。])
+(;B[aa];W[ba]C[失败：只剩一只眼。])
+(;B[ca];W[ba]C[失败：只剩一只眼。]))
+
+(;GM[1]FF[4]CA[UTF-8]SZ[9]GN[点杀直三]PL[B]
+AB[ac][bc][cc][dc][ec][eb][ea]AW[ab][bb][cb][db][da]
+C[黑先杀。白棋想在角上做两只眼。]
+(;B[ba]
+(;W[ca];B[aa]C[正解：白棋整块被提。])
+(;W[aa];B[ca]C[正解：白棋整块被提。]))
+(;B[aa];W[ba]C[失败：白棋提子后做出两只眼。])
+(;B[ca];W[ba]C[失败：白棋提子后做出两只眼。]))
+
+(;GM[1]FF[4]CA[UTF-8]SZ[9]GN[双打吃]PL[B]
+AB[cd][ed][bc]AW[dd][cc]
+C[黑先，一手同时打吃两颗白子。]
+;B[dc]
+(;W[de];B[cb]C[正解：白棋只能救一边。])
+(;W[cb];B[de]C[正解：白棋只能救一边。]))
+
+(;GM[1]FF[4]CA[UTF-8]SZ[9]GN[压向边线]PL[B]
+AB[db][fb]AW[eb]
+C[黑先，把白子赶到一线吃掉。]
+(;B[ec];W[ea]
+(;B[da];W[fa];B[ga]C[正解：白棋三子被提。])
+(;B[fa];W[da];B[ca]C[正解：白棋三子被提。]))
+(;B[ea];W[ec]C[失败：白棋向中腹逃出。]))
+`;
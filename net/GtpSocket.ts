@@ -0,0 +1,40 @@
+import { GtpChannel } from '../logic/GtpClient';
+import { Emitter } from './Transport';
+
+export const GTP_BRIDGE_PORT = 8788;
+export const DEFAULT_GTP_URL = `ws://${typeof location === 'undefined' ? 'localhost' : location.hostname || 'localhost'}:${GTP_BRIDGE_PORT}`;
+
+/**
+ * 经 WebSocket 连到 GTP 桥（server/gtp-bridge.ts），桥的另一端是引擎进程的标准输入输出。
+ * 连接建立前发出的命令先排队。
+ */
+export class GtpSocket implements GtpChannel {
+  private readonly socket: WebSocket;
+  private queue: string[] = [];
+  private readonly data = new Emitter<[string]>();
+  private readonly closed = new Emitter<[]>();
+
+  constructor(url: string = DEFAULT_GTP_URL) {
+    this.socket = new WebSocket(url);
+    this.socket.onopen = () => this.queue.splice(0).forEach(text => this.socket.send(text));
+    this.socket.onmessage = (e: MessageEvent) => this.data.emit(String(e.data));
+    this.socket.onclose = () => this.closed.emit();
+  }
+
+  send(text: string): void {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(text);
+    else this.queue.push(text);
+  }
+
+  onData(handler: (text: string) => void): void {
+    this.data.on(handler);
+  }
+
+  onClose(handler: () => void): void {
+    this.closed.on(handler);
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
@@ -0,0 +1,100 @@
+import { NetworkMessage } from '../types';
+import { Connection, Emitter, Transport } from './Transport';
+
+declare global {
+  interface Window {
+    Peer: any;
+  }
+}
+
+class PeerConnection implements Connection {
+  constructor(private readonly conn: any) {}
+
+  get peer(): string {
+    return this.conn.peer;
+  }
+
+  send(msg: NetworkMessage): void {
+    this.conn.send(msg);
+  }
+
+  close(): void {
+    this.conn.close();
+  }
+
+  onOpen(handler: () => void): void {
+    if (this.conn.open) handler();
+    else this.conn.on('open', handler);
+  }
+
+  onMessage(handler: (data: unknown) => void): () => void {
+    this.conn.on('data', handler);
+    return () => this.conn.off('data', handler);
+  }
+
+  onClose(handler: () => void): void {
+    this.conn.on('close', handler);
+  }
+}
+
+/**
+ * 基于 PeerJS 的点对点连接。PeerJS 由 index.html 以全局脚本引入，加载完成前先轮询等待。
+ * 传入上次的 ID 时尽量沿用，被占用则改用新分配的 ID。
+ */
+export class PeerTransport implements Transport {
+  readonly kind = 'peer';
+  private peer: any = null;
+  private id: string | null = null;
+  private destroyed = false;
+  private readonly ready = new Emitter<[string]>();
+  private readonly incoming = new Emitter<[Connection]>();
+
+  constructor(private preferredId?: string) {
+    this.init();
+  }
+
+  private init(): void {
+    if (this.destroyed) return;
+    if (!window.Peer) {
+      setTimeout(() => this.init(), 500);
+      return;
+    }
+    try {
+      this.peer = this.preferredId ? new window.Peer(this.preferredId) : new window.Peer();
+      this.peer.on('open', (id: string) => {
+        this.id = id;
+        this.ready.emit(id);
+      });
+      this.peer.on('error', (err: any) => {
+        if (err.type !== 'unavailable-id' || this.id) return;
+        this.peer.destroy();
+        this.preferredId = undefined;
+        this.init();
+      });
+      this.peer.on('connection', (conn: any) => this.incoming.emit(new PeerConnection(conn)));
+    } catch (e) { console.error(e); }
+  }
+
+  onReady(handler: (id: string) => void): void {
+    if (this.id) handler(this.id);
+    else this.ready.on(handler);
+  }
+
+  onConnection(handler: (conn: Connection) => void): void {
+    this.incoming.on(handler);
+  }
+
+  connect(id: string): Connection {
+    if (!this.peer) throw new Error('Peer not ready');
+    // 与信令服务器断开后先恢复，否则无法建立新连接
+    if (this.peer.disconnected) this.peer.reconnect();
+    return new PeerConnection(this.peer.connect(id));
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    this.ready.clear();
+    this.incoming.clear();
+    this.peer?.destroy();
+  }
+}
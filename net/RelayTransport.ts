@@ -0,0 +1,166 @@
+import { NetworkMessage } from '../types';
+import { Connection, Emitter, Transport } from './Transport';
+
+export const RELAY_PORT = 8787;
+export const DEFAULT_RELAY_URL = `ws://${typeof location === 'undefined' ? 'localhost' : location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+// 与中继断开后重新登记的间隔
+const RETRY_DELAY = 2000;
+
+// 客户端与中继之间的帧；link 为一条连接的编号，由发起方生成
+export type RelayFrame =
+  | { op: 'register'; id?: string }            // 申请 ID，带上旧 ID 时尽量沿用
+  | { op: 'registered'; id: string }
+  | { op: 'connect'; to: string; link: string }
+  | { op: 'incoming'; from: string; link: string }
+  | { op: 'open'; link: string }
+  | { op: 'data'; link: string; data: unknown }
+  | { op: 'close'; link: string }
+  | { op: 'error'; link?: string; reason: string };
+
+class RelayConnection implements Connection {
+  isOpen = false;
+  isClosed = false;
+  private readonly opened = new Emitter<[]>();
+  private readonly messages = new Emitter<[unknown]>();
+  private readonly closed = new Emitter<[]>();
+
+  constructor(private readonly transport: RelayTransport, readonly peer: string, readonly link: string) {}
+
+  send(msg: NetworkMessage): void {
+    if (this.isOpen && !this.isClosed) this.transport.post({ op: 'data', link: this.link, data: msg });
+  }
+
+  close(): void {
+    if (this.isClosed) return;
+    this.transport.post({ op: 'close', link: this.link });
+    this.handleClose();
+  }
+
+  onOpen(handler: () => void): void {
+    if (this.isOpen) handler();
+    else this.opened.on(handler);
+  }
+
+  onMessage(handler: (data: unknown) => void): () => void {
+    return this.messages.on(handler);
+  }
+
+  onClose(handler: () => void): void {
+    this.closed.on(handler);
+  }
+
+  // 以下由 RelayTransport 按中继的帧调用
+  handleOpen(): void {
+    this.isOpen = true;
+    this.opened.emit();
+  }
+
+  handleData(data: unknown): void {
+    this.messages.emit(data);
+  }
+
+  handleClose(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    this.transport.forget(this.link);
+    this.closed.emit();
+  }
+}
+
+/**
+ * 经自建中继（server/relay.ts）转发的连接，供屏蔽 WebRTC 的网络使用。
+ * 中继只按连接编号转发数据，不解读对局消息。
+ */
+export class RelayTransport implements Transport {
+  readonly kind = 'relay';
+  private socket: WebSocket | null = null;
+  private id: string | null = null;
+  private registered = false;
+  private destroyed = false;
+  private queue: RelayFrame[] = [];
+  private readonly links = new Map<string, RelayConnection>();
+  private readonly ready = new Emitter<[string]>();
+  private readonly incoming = new Emitter<[Connection]>();
+
+  constructor(private readonly url: string = DEFAULT_RELAY_URL, preferredId?: string) {
+    this.id = preferredId ?? null;
+    this.open();
+  }
+
+  private open(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => socket.send(JSON.stringify({ op: 'register', id: this.id ?? undefined }));
+    socket.onmessage = (e: MessageEvent) => {
+      try {
+        this.receive(JSON.parse(String(e.data)));
+      } catch (err) { console.warn('Bad relay frame:', err); }
+    };
+    socket.onclose = () => {
+      // 中继断开时所有连接随之失效；稍后以原 ID 重新登记，对方才能重连回来
+      this.registered = false;
+      [...this.links.values()].forEach(c => c.handleClose());
+      if (!this.destroyed) setTimeout(() => this.open(), RETRY_DELAY);
+    };
+  }
+
+  private receive(frame: RelayFrame): void {
+    switch (frame.op) {
+      case 'registered':
+        this.id = frame.id;
+        this.registered = true;
+        this.queue.splice(0).forEach(f => this.post(f));
+        this.ready.emit(frame.id);
+        break;
+      case 'incoming': {
+        const conn = new RelayConnection(this, frame.from, frame.link);
+        this.links.set(frame.link, conn);
+        conn.handleOpen();
+        this.incoming.emit(conn);
+        break;
+      }
+      case 'open': this.links.get(frame.link)?.handleOpen(); break;
+      case 'data': this.links.get(frame.link)?.handleData(frame.data); break;
+      case 'close': this.links.get(frame.link)?.handleClose(); break;
+      case 'error':
+        console.warn('Relay error:', frame.reason);
+        if (frame.link) this.links.get(frame.link)?.handleClose();
+        break;
+    }
+  }
+
+  // 登记完成前的帧先排队
+  post(frame: RelayFrame): void {
+    if (this.registered && this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(frame));
+    else this.queue.push(frame);
+  }
+
+  forget(link: string): void {
+    this.links.delete(link);
+  }
+
+  onReady(handler: (id: string) => void): void {
+    if (this.registered && this.id) handler(this.id);
+    this.ready.on(handler);
+  }
+
+  onConnection(handler: (conn: Connection) => void): void {
+    this.incoming.on(handler);
+  }
+
+  connect(id: string): Connection {
+    const link = `${this.id ?? 'anon'}-${Math.random().toString(36).slice(2, 10)}`;
+    const conn = new RelayConnection(this, id, link);
+    this.links.set(link, conn);
+    this.post({ op: 'connect', to: id, link });
+    return conn;
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    this.ready.clear();
+    this.incoming.clear();
+    this.socket?.close();
+  }
+}
@@ -0,0 +1,42 @@
+import { NetworkMessage } from '../types';
+
+/**
+ * 双方之间的一条连接。对局代码只通过它收发消息，不关心底层是 WebRTC 还是中继。
+ * 收到的数据未经校验，交给 Protocol.parse 处理。
+ */
+export interface Connection {
+  readonly peer: string; // 对方的 ID
+  send(msg: NetworkMessage): void;
+  close(): void;
+  onOpen(handler: () => void): void;       // 已打开时立即回调
+  onMessage(handler: (data: unknown) => void): () => void; // 返回取消订阅
+  onClose(handler: () => void): void;
+}
+
+export interface Transport {
+  readonly kind: TransportKind;
+  onReady(handler: (id: string) => void): void; // 拿到本方 ID；已就绪时立即回调
+  onConnection(handler: (conn: Connection) => void): void;
+  connect(id: string): Connection;
+  destroy(): void;
+}
+
+export type TransportKind = 'peer' | 'relay';
+
+// 极简事件表，供各实现派发回调
+export class Emitter<T extends unknown[]> {
+  private handlers = new Set<(...args: T) => void>();
+
+  on(handler: (...args: T) => void): () => void {
+    this.handlers.add(handler);
+    return () => { this.handlers.delete(handler); };
+  }
+
+  emit(...args: T): void {
+    [...this.handlers].forEach(h => h(...args));
+  }
+
+  clear(): void {
+    this.handlers.clear();
+  }
+}
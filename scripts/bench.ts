@@ -0,0 +1,175 @@
+// 新旧棋盘实现的性能对比：npm run bench
+import { BoardState, GameSettings, PlayerColor, Point } from '../types';
+import { Board, BLACK, EMPTY, WHITE } from '../logic/Board';
+import { NO_TIME_CONTROL } from '../logic/Clock';
+import { GameFlow } from '../logic/GameFlow';
+import { GoRules } from '../logic/GoRules';
+
+// 旧实现：整盘复制、字符串 Set 洪水填充、JSON 字符串判劫
+const Legacy = {
+  getGroup(board: BoardState, p: Point) {
+    const color = board[p.y][p.x];
+    const stones: Point[] = [];
+    const liberties = new Set<string>();
+    const visited = new Set<string>();
+    const stack: Point[] = [p];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      const key = `${current.x},${current.y}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+      stones.push(current);
+      for (const adj of GoRules.getAdjacent(current, board.length)) {
+        const adjColor = board[adj.y][adj.x];
+        if (adjColor === null) liberties.add(`${adj.x},${adj.y}`);
+        else if (adjColor === color) stack.push(adj);
+      }
+    }
+    return { stones, liberties };
+  },
+
+  isValidMove(board: BoardState, p: Point, player: PlayerColor, history: string[]) {
+    if (board[p.y][p.x] !== null) return { valid: false };
+    const opponent = player === 'black' ? 'white' : 'black';
+    const tempBoard = board.map(row => [...row]);
+    tempBoard[p.y][p.x] = player;
+    const newBoard = tempBoard.map(row => [...row]);
+    let captured = 0;
+    for (const adj of GoRules.getAdjacent(p, board.length)) {
+      if (newBoard[adj.y][adj.x] !== opponent) continue;
+      const group = this.getGroup(newBoard, adj);
+      if (group.liberties.size === 0) {
+        captured += group.stones.length;
+        group.stones.forEach(s => { newBoard[s.y][s.x] = null; });
+      }
+    }
+    if (this.getGroup(newBoard, p).liberties.size === 0) return { valid: false };
+    const boardHash = JSON.stringify(newBoard);
+    if (history.length > 0 && history[history.length - 1] === boardHash) return { valid: false };
+    return { valid: true, newBoard, captured };
+  },
+};
+
+// 固定种子，保证每次跑的对局相同
+let seed = 12345;
+const random = () => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed / 0x80000000;
+};
+
+// 用引擎生成一盘不填眼的随机对局
+const randomGame = (size: number, length: number): Point[] => {
+  const engine = new Board(size);
+  const moves: Point[] = [];
+  let color = BLACK;
+  while (moves.length < length) {
+    const empties: number[] = [];
+    for (let i = 0; i < engine.cells.length; i++) if (engine.cells[i] === EMPTY) empties.push(i);
+    let played = false;
+    while (empties.length > 0) {
+      const j = Math.floor(random() * empties.length);
+      const i = empties[j];
+      empties[j] = empties[empties.length - 1];
+      empties.pop();
+      const eye = Array.from({ length: engine.nbrCount[i] }, (_, k) => engine.cells[engine.nbr[i * 4 + k]]).every(c => c === color);
+      if (eye || !engine.play(i, color)) continue;
+      moves.push(engine.point(i));
+      played = true;
+      break;
+    }
+    if (!played) break;
+    color = 3 - color;
+  }
+  return moves;
+};
+
+// 先空跑一遍预热 JIT，再取计时
+const time = (fn: () => void): number => {
+  fn();
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+};
+
+const report = (label: string, legacyMs: number, engineMs: number) => {
+  console.log(`${label.padEnd(28)} 旧 ${legacyMs.toFixed(1).padStart(9)} ms   新 ${engineMs.toFixed(1).padStart(8)} ms   ×${(legacyMs / engineMs).toFixed(1)}`);
+};
+
+const settings: GameSettings = { boardSize: 19, komi: 7.5, ruleSet: 'chinese', scoringMethod: 'area', handicap: 0, handicapMode: 'fixed', timeControl: NO_TIME_CONTROL, hostColor: 'black' };
+const GAMES = 20;
+const games = Array.from({ length: GAMES }, () => randomGame(19, 300));
+const totalMoves = games.reduce((sum, g) => sum + g.length, 0);
+console.log(`19 路，${GAMES} 盘随机对局，共 ${totalMoves} 手\n`);
+
+// 1. 按对局流程落子：校验、提子、记录历史
+report('对局落子 (含历史记录)', time(() => {
+  for (const game of games) {
+    let board = GoRules.createBoard(19);
+    let history: string[] = [];
+    let moves: Point[] = [];
+    game.forEach((p, n) => {
+      const result = Legacy.isValidMove(board, p, n % 2 === 0 ? 'black' : 'white', history);
+      history = [...history, JSON.stringify(board)];
+      moves = [...moves, p];
+      board = result.newBoard!;
+    });
+  }
+}), time(() => {
+  for (const game of games) {
+    let state = GameFlow.create(settings);
+    game.forEach(p => { state = GameFlow.playMove(state, p).state!; });
+  }
+}));
+
+// 2. 在中盘局面上逐点判断合法性（AI 生成候选时的典型负载）
+const positions = games.map(game => {
+  const engine = new Board(19);
+  game.slice(0, 150).forEach((p, n) => engine.play(engine.index(p), n % 2 === 0 ? BLACK : WHITE));
+  return engine;
+});
+const ROUNDS = 10;
+report('全盘合法点判断', time(() => {
+  for (let r = 0; r < ROUNDS; r++) {
+    for (const position of positions) {
+      const board = position.toState();
+      const history = [JSON.stringify(board)];
+      for (let i = 0; i < position.cells.length; i++) Legacy.isValidMove(board, position.point(i), 'black', history);
+    }
+  }
+}), time(() => {
+  for (let r = 0; r < ROUNDS; r++) {
+    for (const position of positions) {
+      const engine = position.clone();
+      const history = [engine.hash];
+      for (let i = 0; i < engine.cells.length; i++) {
+        if (engine.play(i, BLACK)) {
+          void (engine.hash === history[0]);
+          engine.undo();
+        }
+      }
+    }
+  }
+}));
+
+// 3. 落子后立即悔棋再重下（搜索中的 make/unmake）；旧实现悔棋靠保留上一盘的引用
+report('落子 + 悔棋 + 重下', time(() => {
+  for (const game of games) {
+    let board = GoRules.createBoard(19);
+    game.forEach((p, n) => {
+      const player: PlayerColor = n % 2 === 0 ? 'black' : 'white';
+      Legacy.isValidMove(board, p, player, []);
+      board = Legacy.isValidMove(board, p, player, []).newBoard!;
+    });
+  }
+}), time(() => {
+  for (const game of games) {
+    const engine = new Board(19);
+    game.forEach((p, n) => {
+      const i = engine.index(p);
+      const color = n % 2 === 0 ? BLACK : WHITE;
+      engine.play(i, color);
+      engine.undo();
+      engine.play(i, color);
+    });
+  }
+}));
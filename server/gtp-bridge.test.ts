@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { DEFAULT_ORIGINS, startGtpBridge } from './gtp-bridge';
+
+let bridge: WebSocketServer;
+let url: string;
+
+before(async () => {
+  bridge = startGtpBridge([], 0);
+  await new Promise(resolve => bridge.once('listening', resolve));
+  url = `ws://127.0.0.1:${(bridge.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => {
+  bridge.clients.forEach(c => c.terminate());
+  bridge.close(() => resolve());
+}));
+
+const open = (origin?: string) => new Promise<WebSocket>((resolve, reject) => {
+  const socket = new WebSocket(url, origin ? { origin } : {});
+  socket.once('open', () => resolve(socket));
+  socket.once('error', reject);
+});
+
+const ask = (socket: WebSocket, command: string) => new Promise<string>(resolve => {
+  socket.once('message', raw => resolve(raw.toString()));
+  socket.send(`${command}\n`);
+});
+
+test('connections from other origins are refused', async () => {
+  await assert.rejects(open('https://evil.example'));
+  (await open(DEFAULT_ORIGINS[0])).close();
+  (await open()).close();
+});
+
+test('the built-in engine cannot load files over the bridge', async () => {
+  const socket = await open(DEFAULT_ORIGINS[0]);
+  assert.equal(await ask(socket, 'known_command loadsgf'), '= false\n\n');
+  assert.match(await ask(socket, 'loadsgf /etc/passwd'), /^\?/);
+  socket.close();
+});
@@ -0,0 +1,71 @@
+// GTP 桥：npm run gtp-bridge -- <引擎命令> [参数...]，如 npm run gtp-bridge -- gnugo --mode gtp
+// 不给命令时使用内置引擎，参数同 server/gtp.ts；端口默认 8788，可用 PORT 环境变量修改
+// 只接受本应用页面的连接，应用不在默认的开发地址时用 ORIGINS 环境变量指定（逗号分隔）
+import { spawn } from 'child_process';
+import { pathToFileURL } from 'url';
+import { WebSocket, WebSocketServer } from 'ws';
+import { GTP_BRIDGE_PORT } from '../net/GtpSocket';
+import { createEngine, parseEngineArgs } from './gtp';
+
+export const DEFAULT_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000'];
+
+/**
+ * 每个 WebSocket 连接对应一个引擎进程：收到的文本写入引擎的标准输入，引擎的输出原样发回。
+ * 连接断开时结束进程，进程退出时关闭连接。只监听本机，免得任何人都能在这台机器上起进程；
+ * 浏览器里打开的任何网页也都连得上本机端口，所以还要核对来源，只放行本应用的页面。
+ * 不带来源的是本机的非浏览器程序，照常放行。
+ */
+export const startGtpBridge = (command: string[], port: number = GTP_BRIDGE_PORT, host = '127.0.0.1', origins: string[] = DEFAULT_ORIGINS): WebSocketServer => {
+  const wss = new WebSocketServer({ port, host, verifyClient: ({ origin }: { origin?: string }) => !origin || origins.includes(origin) });
+
+  wss.on('connection', socket => {
+    const send = (text: string) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(text);
+    };
+
+    if (command.length === 0 || command[0].startsWith('--')) {
+      const engine = createEngine(parseEngineArgs(command), false);
+      let buffer = '';
+      socket.on('message', raw => {
+        buffer += raw.toString();
+        let end: number;
+        while ((end = buffer.indexOf('\n')) >= 0) {
+          send(engine.handle(buffer.slice(0, end)));
+          buffer = buffer.slice(end + 1);
+          if (engine.done) socket.close();
+        }
+      });
+      return;
+    }
+
+    const child = spawn(command[0], command.slice(1), { stdio: ['pipe', 'pipe', 'inherit'] });
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (text: string) => send(text));
+    child.on('error', err => {
+      console.error(`无法启动引擎：${err.message}`);
+      socket.close();
+    });
+    child.on('exit', () => socket.close());
+    // 引擎退出时还有没写完的输入会报 EPIPE，不处理的话整个桥都会退出
+    child.stdin.on('error', err => {
+      console.error(`写入引擎失败：${err.message}`);
+      socket.close();
+    });
+    socket.on('message', raw => {
+      if (child.stdin.writable) child.stdin.write(raw.toString());
+    });
+    socket.on('close', () => {
+      if (child.exitCode === null) child.kill();
+    });
+  });
+
+  return wss;
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || GTP_BRIDGE_PORT;
+  const command = process.argv.slice(2);
+  const origins = process.env.ORIGINS?.split(',').map(o => o.trim()).filter(Boolean);
+  startGtpBridge(command, port, process.env.HOST || '127.0.0.1', origins?.length ? origins : DEFAULT_ORIGINS);
+  console.log(`GTP 桥已启动：ws://localhost:${port}，引擎：${command.length && !command[0].startsWith('--') ? command.join(' ') : '内置'}`);
+}
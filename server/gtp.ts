@@ -0,0 +1,60 @@
+// 无界面 GTP 引擎：npm run gtp -- [--rules chinese] [--level medium | --random]，经标准输入输出通信
+import { readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { pathToFileURL } from 'url';
+import { GameState, RuleSet } from '../types';
+import { Ai, AiAction, AiLevel } from '../logic/Ai';
+import { GoRules, RULE_SETS } from '../logic/GoRules';
+import { GtpEngine } from '../logic/GtpEngine';
+
+export interface EngineArgs {
+  ruleSet: RuleSet;
+  level: AiLevel | 'random';
+}
+
+// 测试用的傻瓜引擎：随机下一个合法点，不填自己的眼，无处可下就跳过
+export const randomMove = (state: GameState): AiAction => {
+  const size = state.board.length;
+  const player = state.currentPlayer;
+  const points = state.board.flatMap((row, y) => row.map((c, x) => c === null ? { x, y } : null)).filter(p => p !== null);
+  for (let i = points.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [points[i], points[j]] = [points[j], points[i]];
+  }
+  const point = points.find(p =>
+    !GoRules.getAdjacent(p, size).every(n => state.board[n.y][n.x] === player)
+    && GoRules.isValidMove(state.board, p, player, state.history, RULE_SETS[state.ruleSet]).valid
+  );
+  return point ? { type: 'move', point } : { type: 'pass' };
+};
+
+export const parseEngineArgs = (argv: string[]): EngineArgs => {
+  const value = (flag: string) => {
+    const i = argv.indexOf(flag);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+  const rules = value('--rules');
+  const level = value('--level');
+  return {
+    ruleSet: rules && rules in RULE_SETS ? rules as RuleSet : 'chinese',
+    level: argv.includes('--random') ? 'random' : level === 'easy' || level === 'hard' ? level : 'medium',
+  };
+};
+
+// readFiles 为假时不支持 loadsgf，经网络连进来的一方不该读得到本机文件
+export const createEngine = ({ ruleSet, level }: EngineArgs, readFiles = true): GtpEngine => new GtpEngine({
+  name: level === 'random' ? 'WEIQI Random' : 'WEIQI',
+  ruleSet,
+  genmove: state => level === 'random' ? randomMove(state) : Ai.chooseMove(state, level),
+  ...(readFiles ? { readFile: (path: string) => readFileSync(path, 'utf8') } : {}),
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const engine = createEngine(parseEngineArgs(process.argv.slice(2)));
+  const input = createInterface({ input: process.stdin, terminal: false });
+  input.on('line', line => {
+    if (engine.done) return;
+    process.stdout.write(engine.handle(line));
+    if (engine.done) input.close();
+  });
+}
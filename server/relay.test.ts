@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ChatMessage, GameState } from '../types';
+import { NO_TIME_CONTROL } from '../logic/Clock';
+import { GameFlow } from '../logic/GameFlow';
+import { MAX_SYNC_CHAT, PROTOCOL_VERSION, Protocol } from '../logic/Protocol';
+import { MAX_FRAME_BYTES, startRelay } from './relay';
+
+let relay: WebSocketServer;
+let url: string;
+
+before(async () => {
+  relay = startRelay(0);
+  await new Promise(resolve => relay.once('listening', resolve));
+  url = `ws://127.0.0.1:${(relay.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => {
+  relay.clients.forEach(c => c.terminate());
+  relay.close(() => resolve());
+}));
+
+const open = async () => {
+  const socket = new WebSocket(url);
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+  return socket;
+};
+
+const nextFrame = (socket: WebSocket) => new Promise<Record<string, unknown>>(resolve =>
+  socket.once('message', raw => resolve(JSON.parse(raw.toString()))));
+
+const register = async (socket: WebSocket, id?: string) => {
+  const reply = nextFrame(socket);
+  socket.send(JSON.stringify({ op: 'register', id }));
+  return (await reply).id as string;
+};
+
+test('malformed frames are dropped and the relay stays up', async () => {
+  const socket = await open();
+  ['null', '42', '"text"', '[]', '{}', '{"op":7}', '{"op":"connect"}', '{"op":"connect","to":{},"link":[]}',
+    '{"op":"data","link":null}', '{"op":"close"}', '{"op":"register","id":5}'].forEach(text => socket.send(text));
+  // 坏帧之后同一连接仍能正常注册
+  assert.equal(await register(socket, 'still-alive'), 'still-alive');
+  socket.close();
+});
+
+const linkPair = async (link: string) => {
+  const host = await open();
+  const guest = await open();
+  const hostId = await register(host);
+  await register(guest);
+  const incoming = nextFrame(host);
+  const opened = nextFrame(guest);
+  guest.send(JSON.stringify({ op: 'connect', to: hostId, link }));
+  assert.equal((await incoming).op, 'incoming');
+  assert.equal((await opened).op, 'open');
+  return { host, guest };
+};
+
+// 19 路上随机下到指定手数，棋盘下满后提子不断，局面快照随手数线性增长
+const longGame = (moveCount: number): GameState => {
+  let state = GameFlow.create({
+    boardSize: 19, komi: 7.5, ruleSet: 'chinese', scoringMethod: 'area', handicap: 0, handicapMode: 'fixed',
+    timeControl: NO_TIME_CONTROL, hostColor: 'black',
+  });
+  let seed = 1;
+  while (state.moves.length < moveCount) {
+    seed = seed * 48271 % 2147483647;
+    // 从随机点起找第一个合法点，找不到就跳过
+    let next = { ...GameFlow.pass(state), isScoring: false };
+    for (let k = 0; k < 361; k++) {
+      const i = (seed + k) % 361;
+      const result = GameFlow.playMove(state, { x: i % 19, y: Math.floor(i / 19) });
+      if (result.state) {
+        next = result.state;
+        break;
+      }
+    }
+    state = next;
+  }
+  return state;
+};
+
+test('frames are forwarded between linked peers', async () => {
+  const { host, guest } = await linkPair('l1');
+  const data = nextFrame(host);
+  guest.send(JSON.stringify({ op: 'data', link: 'l1', data: { hello: 1 } }));
+  assert.deepEqual(await data, { op: 'data', link: 'l1', data: { hello: 1 } });
+  host.close();
+  guest.close();
+});
+
+test('a long game with a full chat log syncs within one frame', async () => {
+  const gameState = longGame(1000);
+  const chatLog: ChatMessage[] = Array.from({ length: MAX_SYNC_CHAT + 100 }, (_, i) => (
+    { id: `${i}`.padStart(64, '0'), sender: '棋'.repeat(32), text: '棋'.repeat(500), color: 'black' }));
+  const frame = (data: unknown) => JSON.stringify({ op: 'data', link: 'l2', data });
+  // 带着每手的局面快照就超出了单帧上限
+  assert.ok(Buffer.byteLength(frame({ type: 'SYNC', payload: { gameState }, v: PROTOCOL_VERSION })) > MAX_FRAME_BYTES);
+  const text = frame(Protocol.stamp({ type: 'SYNC', payload: { gameState, chatLog } }));
+  assert.ok(Buffer.byteLength(text) < MAX_FRAME_BYTES, `${Buffer.byteLength(text)} bytes`);
+
+  const { host, guest } = await linkPair('l2');
+  const data = nextFrame(guest);
+  host.send(text);
+  const { message } = Protocol.parse((await data).data);
+  assert.equal(message?.type, 'SYNC');
+  const synced = message!.payload as { gameState: GameState; chatLog: ChatMessage[] };
+  assert.deepEqual(synced.gameState.history.map(h => h.hash), gameState.history.map(h => h.hash));
+  assert.deepEqual(synced.gameState.board, gameState.board);
+  assert.equal(synced.chatLog.length, MAX_SYNC_CHAT);
+  host.close();
+  guest.close();
+});
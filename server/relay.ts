@@ -0,0 +1,107 @@
+// 自建 WebSocket 中继：npm run relay，端口默认 8787，可用 PORT 环境变量修改
+import { pathToFileURL } from 'url';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { RelayFrame } from '../net/RelayTransport';
+import { RELAY_PORT } from '../net/RelayTransport';
+
+export const MAX_FRAME_BYTES = 1 << 20;
+
+const randomId = () => Math.random().toString(36).slice(2, 10);
+
+const isId = (v: unknown): v is string => typeof v === 'string' && v.length > 0 && v.length <= 128;
+
+// 客户端发来的帧先查结构，各操作读到的字段类型不对的一律丢弃，免得一个坏帧拖垮整个中继
+const isClientFrame = (v: unknown): v is RelayFrame => {
+  if (!v || typeof v !== 'object' || Array.isArray(v)) return false;
+  const frame = v as Record<string, unknown>;
+  switch (frame.op) {
+    case 'register': return frame.id === undefined || typeof frame.id === 'string' && frame.id.length <= 128;
+    case 'connect': return isId(frame.to) && isId(frame.link);
+    case 'data': return isId(frame.link) && 'data' in frame;
+    case 'close': return isId(frame.link);
+    default: return false;
+  }
+};
+
+/**
+ * 中继只做三件事：分配 ID、按 ID 撮合连接、在连接两端之间转发数据。
+ * 对局消息原样转发，不做解析；一端断开时通知另一端。
+ */
+export const startRelay = (port: number = RELAY_PORT): WebSocketServer => {
+  const wss = new WebSocketServer({ port, maxPayload: MAX_FRAME_BYTES });
+  const clients = new Map<string, WebSocket>();
+  const links = new Map<string, [WebSocket, WebSocket]>();
+  const owned = new Map<WebSocket, Set<string>>();
+
+  const post = (socket: WebSocket, frame: RelayFrame) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+  };
+
+  const closeLink = (link: string, from: WebSocket) => {
+    const ends = links.get(link);
+    if (!ends || !ends.includes(from)) return;
+    links.delete(link);
+    ends.forEach(s => owned.get(s)?.delete(link));
+    const other = ends[0] === from ? ends[1] : ends[0];
+    post(other, { op: 'close', link });
+  };
+
+  wss.on('connection', socket => {
+    let id: string | null = null;
+    owned.set(socket, new Set());
+
+    socket.on('message', raw => {
+      let frame: unknown;
+      try {
+        frame = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (!isClientFrame(frame)) return;
+      switch (frame.op) {
+        case 'register':
+          if (id) return;
+          // 沿用旧 ID，让断线的一方回来后对手仍能找到它
+          id = typeof frame.id === 'string' && frame.id && !clients.has(frame.id) ? frame.id : randomId();
+          while (clients.has(id)) id = randomId();
+          clients.set(id, socket);
+          post(socket, { op: 'registered', id });
+          break;
+        case 'connect': {
+          const target = clients.get(frame.to);
+          if (!id || !target || target === socket || links.has(frame.link)) {
+            post(socket, { op: 'error', link: frame.link, reason: 'peer-unavailable' });
+            return;
+          }
+          links.set(frame.link, [socket, target]);
+          owned.get(socket)!.add(frame.link);
+          owned.get(target)!.add(frame.link);
+          post(target, { op: 'incoming', from: id, link: frame.link });
+          post(socket, { op: 'open', link: frame.link });
+          break;
+        }
+        case 'data': {
+          const ends = links.get(frame.link);
+          if (!ends || !ends.includes(socket)) return;
+          post(ends[0] === socket ? ends[1] : ends[0], frame);
+          break;
+        }
+        case 'close': closeLink(frame.link, socket); break;
+      }
+    });
+
+    socket.on('close', () => {
+      if (id && clients.get(id) === socket) clients.delete(id);
+      [...owned.get(socket)!].forEach(link => closeLink(link, socket));
+      owned.delete(socket);
+    });
+  });
+
+  return wss;
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || RELAY_PORT;
+  startRelay(port);
+  console.log(`中继已启动：ws://localhost:${port}`);
+}
@@ -14,30 +14,194 @@ export interface ChatMessage {
   text: string;
   isEmoji?: boolean;
   color: PlayerColor | 'spectator';
+  moveNumber?: number;
+}
+
+// 玩家资料，联机时随握手交换；等级分由各自在本地维护
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  avatar: string; // 一个 emoji
+  rating: number;
+  rd: number;     // Glicko 评分偏差，越小越可信
+}
+
+export interface GameMove {
+  player: PlayerColor;
+  point: Point | null; // null 表示跳过
 }
 
 export interface HistoryEntry {
-  board: string; // JSON string
+  board: BoardState;
+  hash: number; // 局面的 Zobrist 哈希
   captured: { black: number; white: number };
   lastMove: Point | null;
   player: PlayerColor;
 }
 
+export type ScoringMethod = 'territory' | 'area';
+
+export type RuleSet = 'chinese' | 'japanese' | 'aga' | 'nz' | 'tromp-taylor';
+
+// simple 只禁止立即回提；positional 禁止重现任何旧局面；situational 只禁止同一方行棋时的旧局面
+export type KoRule = 'simple' | 'positional' | 'situational';
+
+export interface RuleOptions {
+  ko: KoRule;
+  suicide: boolean; // 是否允许多子自杀
+  scoringMethod: ScoringMethod;
+  komi: number;
+}
+
+export interface SideScore {
+  territory: number;
+  stones: number;
+  captures: number;
+  komi: number;
+  total: number;
+}
+
+export interface ScoreResult {
+  method: ScoringMethod;
+  black: SideScore;
+  white: SideScore;
+  winner: PlayerColor | 'draw';
+  margin: number;
+}
+
+export type TimeControlType = 'none' | 'absolute' | 'byoyomi' | 'canadian' | 'fischer';
+
+// 设置中的时间均以秒计
+export interface TimeControl {
+  type: TimeControlType;
+  mainTime: number;
+  periods: number;     // 日式读秒次数
+  periodTime: number;  // 日式每次读秒 / 加拿大每段时长
+  stones: number;      // 加拿大读秒每段须下的手数
+  increment: number;   // 费舍尔每手加秒
+}
+
+// 对局中的剩余时间以毫秒计
+export interface ClockState {
+  mainTime: number;
+  periods: number;
+  periodTime: number;
+  stones: number;
+}
+
+// agreement 为双方同意和棋
+export type ResultReason = 'resign' | 'score' | 'time' | 'forfeit' | 'agreement';
+
+export interface GameResult {
+  winner: PlayerColor | 'draw';
+  reason: ResultReason;
+  margin: number | null; // 仅数子/数目结束时有值
+  date: string;          // ISO 时间
+}
+
+export type HandicapMode = 'fixed' | 'free';
+
+export interface GameSettings {
+  boardSize: number;
+  komi: number;
+  ruleSet: RuleSet;
+  scoringMethod: ScoringMethod;
+  handicap: number;
+  handicapMode: HandicapMode;
+  timeControl: TimeControl;
+  hostColor: PlayerColor | 'nigiri';
+}
+
+// 摆出的初始局面（编辑器或棋谱的 AB/AW），不按让子处理
+export interface BoardSetup {
+  black: Point[];
+  white: Point[];
+  player: PlayerColor;
+  captured: { black: number; white: number };
+}
+
 export interface GameState {
   board: BoardState;
   currentPlayer: PlayerColor;
   captured: { black: number; white: number };
   history: HistoryEntry[]; 
+  moves: GameMove[];
   passCount: number;
   gameOver: boolean;
-  winner: PlayerColor | 'draw' | null;
+  result: GameResult | null;
   lastMove: Point | null;
+  komi: number;
+  ruleSet: RuleSet;
+  scoringMethod: ScoringMethod;
+  handicap: number;
+  handicapStones: Point[];
+  handicapToPlace: number;
+  score: ScoreResult | null;
+  isScoring: boolean;
+  deadStones: Point[];
+  scoreAccepted: { black: boolean; white: boolean };
+  timeControl: TimeControl;
+  clocks: { black: ClockState; white: ClockState };
+  turnStartedAt: number | null; // 本地时间，当前一方开始思考的时刻；为 null 时钟停走
+  setup?: BoardSetup | null;    // 由摆棋开始的对局，复盘与导出时据此还原开局
 }
 
-export type MessageType = 'MOVE' | 'PASS' | 'CHAT' | 'SYNC' | 'UNDO_REQ' | 'UNDO_ACCEPT' | 'UNDO_DECLINE' | 'RESTART';
+// 落子/跳过消息附带的计时信息：发出时刻与本手用时（均为发送方本地时间）
+export interface MoveStamp {
+  at: number;
+  elapsed: number;
+  hash?: number; // 落子或跳过后的局面哈希，接收方据此发现双方局面分歧
+}
 
-export interface NetworkMessage {
-  type: MessageType;
-  payload: any;
-  from?: string;
+export interface SyncPayload {
+  gameState: GameState;
+  chatLog?: ChatMessage[];
 }
+
+// 各类消息的载荷；改动结构时须同步 logic/Protocol.ts 的校验并提升 PROTOCOL_VERSION
+export interface MessagePayloads {
+  MOVE: { point: Point } & Partial<MoveStamp>;
+  PASS: Partial<MoveStamp>;
+  CHAT: ChatMessage;
+  SYNC: SyncPayload;
+  SYNC_REQ: null;
+  UNDO_REQ: null;
+  UNDO_ACCEPT: null;
+  UNDO_DECLINE: null;
+  RESTART: null;           // 仅限终局后直接重开
+  RESTART_REQ: null;
+  RESTART_ACCEPT: null;
+  RESTART_DECLINE: null;
+  LOAD_REQ: SyncPayload;   // 请求对方载入本方导入的棋谱
+  LOAD_ACCEPT: SyncPayload;
+  LOAD_DECLINE: null;
+  MARK_DEAD: Point[];
+  ACCEPT_SCORE: PlayerColor;
+  RESUME: null;
+  SETUP_PROPOSE: GameSettings;
+  SETUP_ACCEPT: null;
+  SETUP_DECLINE: null;
+  TIMEOUT: PlayerColor;
+  RESIGN: PlayerColor;
+  DRAW_OFFER: null;
+  DRAW_ACCEPT: null;
+  DRAW_DECLINE: null;
+  SPECTATE: GameSettings;
+  VIEWERS: string[];
+  HELLO: { sessionId: string | null; lastSeq: number; proposal?: GameSettings; profile?: PlayerProfile }; // proposal 来自邀请链接
+  PROFILE: PlayerProfile;  // 主机收下对手时回报本方资料，改过资料也重发一次
+  WELCOME: { color: PlayerColor; settings: GameSettings; lastSeq: number };
+}
+
+export type MessageType = keyof MessagePayloads;
+
+export type NetworkMessage = {
+  [K in MessageType]: {
+    type: K;
+    payload: MessagePayloads[K];
+    v?: number;       // 协议版本，发送时统一填写
+    from?: string;
+    session?: string; // SETUP_PROPOSE 携带主机分配的会话号
+    seq?: number;     // 会话内按发送方递增的序号，重连补发时据此去重
+  };
+}[MessageType];